@@ -2,6 +2,13 @@ import { defineConfig } from 'astro/config';
 import tailwind from '@astrojs/tailwind';
 import react from '@astrojs/react';
 import sitemap from '@astrojs/sitemap';
+import { readFileSync } from 'node:fs';
+
+// Old store URLs kept alive after renames and moves, generated by `npm run build:data`
+const storeRedirects = Object.fromEntries(
+  JSON.parse(readFileSync(new URL('./src/data/redirects.json', import.meta.url), 'utf-8')).redirects
+    .map(({ from, to, status }) => [from, { status, destination: to }])
+);
 
 export default defineConfig({
   integrations: [
@@ -15,12 +22,15 @@ export default defineConfig({
       experimentalReactChildren: true,
     }),
     sitemap({
+      // Re-sorted listings are noindex; the name-ordered /stores/ pages cover them
+      filter: page => !page.includes('/stores/sort/'),
       changefreq: 'weekly',
       priority: 0.7,
       lastmod: new Date(),
     })
   ],
   output: 'static',
+  redirects: storeRedirects,
   
   build: {
     inlineStylesheets: 'auto',
@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+/**
+ * Canonical dataset build
+ *
+ * Turns src/data/bookstores.csv into the versioned dataset of processed
+ * stores at public/data/bookstores.json, and records newly issued or
+ * disambiguated store slugs in src/data/slug-registry.json.
+ *
+ * Stores whose slug changed since the last build (matched by place_id) keep
+ * their old URLs as 301 redirects, written to src/data/redirects.json (read by
+ * astro.config.mjs and scripts/cdn-config.ts) and public/_redirects. Pages and API routes build the same
+ * dataset in-process via src/lib/dataset.ts; this file is the copy shipped
+ * to client bundles and external tools.
+ *
+ * Slug clashes the registry has no resolution for fail the build with a list
+ * of the stores involved. Once they are checked (true duplicates removed from
+ * the CSV), --accept-slug-clashes records their disambiguated slugs.
+ *
+ * Usage: tsx scripts/build-dataset.ts [--accept-slug-clashes]
+ */
+
+import path from 'node:path';
+import { buildDataset, readDatasetFile, writeDataset, DATASET_CSV_PATH, DATASET_JSON_PATH } from '../src/lib/dataset.ts';
+import { formatSlugClashes, readSlugRegistry, writeSlugRegistry, SLUG_REGISTRY_PATH } from '../src/lib/slugs.ts';
+import {
+  detectSlugChanges,
+  getStoreRedirects,
+  seedSlugRegistry,
+  writeRedirects,
+  REDIRECTS_PATH
+} from '../src/lib/redirects.ts';
+
+const acceptSlugClashes = process.argv.includes('--accept-slug-clashes');
+
+async function main() {
+  console.log(`📚 Building canonical dataset from ${path.relative(process.cwd(), DATASET_CSV_PATH)}`);
+
+  // The last published dataset, to catch slugs the registry never recorded
+  const previous = await readDatasetFile(DATASET_JSON_PATH);
+  const previousStores = (previous?.stores || []).filter(store => store.id && store.slug);
+  const seededRegistry = seedSlugRegistry(await readSlugRegistry(), previousStores);
+
+  const { dataset, registry, slugClashes } = await buildDataset(DATASET_CSV_PATH, seededRegistry);
+
+  if (slugClashes.length > 0) {
+    const clashList = formatSlugClashes(slugClashes);
+    if (!acceptSlugClashes) {
+      throw new Error(
+        `${slugClashes.length} store slug clashes not yet in the slug registry:\n  ${clashList}\n` +
+        'Check these stores, then run `npm run build:data -- --accept-slug-clashes` to record their slugs'
+      );
+    }
+    console.warn(`⚠️  Recording ${slugClashes.length} slug clashes, disambiguated by store ID:\n  ${clashList}`);
+  }
+
+  const slugChanges = detectSlugChanges(previousStores, dataset.stores);
+  if (slugChanges.length > 0) {
+    console.log(`🔀 ${slugChanges.length} store URLs changed since the last build:`);
+    slugChanges.forEach(change => {
+      const reason = change.changedFields.length ? ` (${change.changedFields.join(', ')} changed)` : '';
+      console.log(`   ${change.name}: /stores/${change.from}/ -> /stores/${change.to}/${reason}`);
+    });
+  }
+
+  if (await writeSlugRegistry(registry)) {
+    console.log(`📝 Updated ${path.relative(process.cwd(), SLUG_REGISTRY_PATH)}`);
+  }
+
+  const redirects = getStoreRedirects(dataset.stores);
+  if (await writeRedirects(redirects)) {
+    console.log(`↪️  Wrote ${redirects.length} redirects to ${path.relative(process.cwd(), REDIRECTS_PATH)} and public/_redirects`);
+  }
+
+  if (!(await writeDataset(dataset, DATASET_JSON_PATH))) {
+    console.log(`✅ Dataset unchanged (${dataset.count} stores, hash ${dataset.hash})`);
+    return;
+  }
+
+  console.log(`✅ Wrote ${dataset.count} stores to ${path.relative(process.cwd(), DATASET_JSON_PATH)}`);
+  console.log(`   Version ${dataset.version}, hash ${dataset.hash}`);
+}
+
+main().catch(error => {
+  console.error('Dataset build failed:', error);
+  process.exit(1);
+});
@@ -9,6 +9,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { formatNetlifyRedirects, REDIRECTS_PATH, type RedirectsFile, type StoreRedirect } from '../src/lib/redirects.ts';
 
 interface CDNProvider {
   name: string;
@@ -291,6 +292,9 @@ class CDNManager {
       await this.generateProviderConfig(key, provider, configDir);
     }
 
+    // Generate store redirects in each provider's format
+    await this.generateRedirectConfigs(configDir);
+
     // Generate deployment scripts
     await this.generateDeploymentScripts(configDir);
 
@@ -335,6 +339,64 @@ class CDNManager {
     console.log(`   📄 Generated ${provider.name} configuration`);
   }
 
+  /**
+   * Generate redirect rules for renamed and moved stores from src/data/redirects.json
+   */
+  private async generateRedirectConfigs(configDir: string): Promise<void> {
+    if (!fs.existsSync(REDIRECTS_PATH)) {
+      console.log('   ⚠️  No redirects.json found. Run "npm run build:data" first.');
+      return;
+    }
+
+    const { redirects } = JSON.parse(fs.readFileSync(REDIRECTS_PATH, 'utf-8')) as RedirectsFile;
+
+    // Cloudflare Pages reads the same _redirects format as Netlify
+    fs.writeFileSync(path.join(configDir, 'cloudflare-redirects.txt'), formatNetlifyRedirects(redirects));
+
+    // Vercel: merge into vercel.json
+    fs.writeFileSync(
+      path.join(configDir, 'vercel-redirects.json'),
+      JSON.stringify({
+        redirects: redirects.map(redirect => ({
+          source: redirect.from.replace(/\/$/, '{/}?'),
+          destination: redirect.to,
+          permanent: redirect.status === 301
+        }))
+      }, null, 2)
+    );
+
+    // CloudFront: viewer-request function
+    fs.writeFileSync(path.join(configDir, 'cloudfront-redirects.js'), this.generateCloudFrontRedirectFunction(redirects));
+
+    console.log(`   ↪️  Generated ${redirects.length} store redirects for each provider`);
+  }
+
+  /**
+   * CloudFront Function answering old store URLs with a redirect before they reach the origin
+   */
+  private generateCloudFrontRedirectFunction(redirects: StoreRedirect[]): string {
+    const table = Object.fromEntries(redirects.map(redirect => [redirect.from.replace(/\/$/, ''), redirect.to]));
+
+    return `// Generated automatically by CDN Manager from src/data/redirects.json
+var REDIRECTS = ${JSON.stringify(table, null, 2)};
+
+function handler(event) {
+  var request = event.request;
+  var target = REDIRECTS[request.uri.replace(/\\/$/, '')];
+
+  if (target) {
+    return {
+      statusCode: 301,
+      statusDescription: 'Moved Permanently',
+      headers: { location: { value: target } }
+    };
+  }
+
+  return request;
+}
+`;
+  }
+
   /**
    * Generate deployment script for a provider
    */
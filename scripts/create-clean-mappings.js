@@ -46,7 +46,7 @@ function nameToFilename(storeName) {
 // Find new mappings (only stores that aren't already mapped)
 const newMappings = [];
 
-bookstoresData.data.forEach(store => {
+bookstoresData.stores.forEach(store => {
   const storeName = store.name;
   
   // Skip if already mapped
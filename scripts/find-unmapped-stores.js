@@ -27,7 +27,7 @@ mappingMatches.forEach(match => {
 });
 
 console.log('=== COMPREHENSIVE IMAGE MAPPING ANALYSIS ===\n');
-console.log(`Total stores in database: ${bookstoresData.data.length}`);
+console.log(`Total stores in database: ${bookstoresData.stores.length}`);
 console.log(`Available store images: ${availableImages.length}`);
 console.log(`Currently mapped stores: ${existingMappings.size}\n`);
 
@@ -52,7 +52,7 @@ function nameToFilename(storeName) {
 const unmappedStores = [];
 const suggestedMappings = [];
 
-bookstoresData.data.forEach(store => {
+bookstoresData.stores.forEach(store => {
   const storeName = store.name;
   
   // Skip if already mapped
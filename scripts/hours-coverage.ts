@@ -0,0 +1,92 @@
+#!/usr/bin/env tsx
+
+/**
+ * Hours coverage report
+ *
+ * Runs every hours string in the bookstore CSV (the source of the canonical
+ * dataset) through the opening-hours grammar and lists the ones that still
+ * fail to parse.
+ *
+ * Usage: tsx scripts/hours-coverage.ts [--strict]
+ *   --strict  exit with code 1 when any string fails to parse
+ */
+
+import path from 'node:path';
+import { parseBookstores } from '../src/lib/csv/parser.ts';
+import { DATASET_CSV_PATH } from '../src/lib/dataset.ts';
+import { getHoursLocale, parseDayHours } from '../src/lib/processors/hours.ts';
+import type { BookstoreData, DayHours } from '../src/types/bookstore.ts';
+
+const HOURS_COLUMNS = ['mon_hours', 'tue_hours', 'wed_hours', 'thu_hours', 'fri_hours', 'sat_hours', 'sun_hours'] as const;
+
+interface FailedString {
+  value: string;
+  occurrences: number;
+  stores: Set<string>;
+  sources: Set<string>;
+}
+
+const statusCounts: Record<DayHours['status'], number> = { open: 0, closed: 0, open24: 0, unknown: 0 };
+const failures = new Map<string, FailedString>();
+
+function collect(source: string, stores: Array<Partial<BookstoreData>>) {
+  stores.forEach(store => {
+    const locale = getHoursLocale(store.province);
+
+    HOURS_COLUMNS.forEach(column => {
+      const raw = store[column];
+      if (!raw || !raw.trim()) return;
+
+      const parsed = parseDayHours(raw, locale);
+      statusCounts[parsed.status]++;
+      if (parsed.status !== 'unknown') return;
+
+      const failure = failures.get(raw) || { value: raw, occurrences: 0, stores: new Set(), sources: new Set() };
+      failure.occurrences++;
+      failure.stores.add(`${store.name} (${store.city}, ${store.province})`);
+      failure.sources.add(source);
+      failures.set(raw, failure);
+    });
+  });
+}
+
+async function main() {
+  const strict = process.argv.includes('--strict');
+
+  const { records } = await parseBookstores(DATASET_CSV_PATH);
+  collect(path.basename(DATASET_CSV_PATH), records);
+
+  const parsedTotal = statusCounts.open + statusCounts.closed + statusCounts.open24;
+  const total = parsedTotal + statusCounts.unknown;
+  const coverage = total > 0 ? (parsedTotal / total) * 100 : 100;
+
+  console.log('🕒 Hours Coverage Report');
+  console.log('========================');
+  console.log(`Listings checked: ${total}`);
+  console.log(`  Open:           ${statusCounts.open}`);
+  console.log(`  Open 24 hours:  ${statusCounts.open24}`);
+  console.log(`  Closed:         ${statusCounts.closed}`);
+  console.log(`  Unparsed:       ${statusCounts.unknown}`);
+  console.log(`Coverage: ${coverage.toFixed(1)}%`);
+
+  if (failures.size === 0) {
+    console.log('\n✅ Every hours string in the dataset parses');
+    return;
+  }
+
+  console.log(`\n❌ ${failures.size} distinct hours strings failed to parse:\n`);
+  [...failures.values()]
+    .sort((a, b) => b.occurrences - a.occurrences)
+    .forEach(failure => {
+      console.log(`  "${failure.value}"  ×${failure.occurrences}  [${[...failure.sources].join(', ')}]`);
+      [...failure.stores].slice(0, 3).forEach(store => console.log(`      ${store}`));
+      if (failure.stores.size > 3) console.log(`      …and ${failure.stores.size - 3} more`);
+    });
+
+  if (strict) process.exit(1);
+}
+
+main().catch(error => {
+  console.error('Hours coverage report failed:', error);
+  process.exit(1);
+});
@@ -25,7 +25,7 @@ const mappedStoreNames = mappingMatches.map(match => {
 
 console.log('=== IMAGE MAPPING VERIFICATION ===\n');
 
-console.log(`Total stores in database: ${bookstoresData.data.length}`);
+console.log(`Total stores in database: ${bookstoresData.stores.length}`);
 console.log(`Available store images: ${availableImages.length}`);
 console.log(`Stores with mappings: ${mappedStoreNames.length}\n`);
 
@@ -33,7 +33,7 @@ console.log(`Stores with mappings: ${mappedStoreNames.length}\n`);
 const storesWithMappings = [];
 const storesWithoutMappings = [];
 
-bookstoresData.data.forEach(store => {
+bookstoresData.stores.forEach(store => {
   if (mappedStoreNames.includes(store.name)) {
     storesWithMappings.push(store.name);
   } else {
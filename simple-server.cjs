@@ -6,6 +6,28 @@ const PORT = 4321;
 const HOST = '0.0.0.0';
 const DIST_DIR = path.join(__dirname, 'dist');
 
+// Redirect rules from dist/_redirects (Netlify format: "from to [status]"),
+// generated from the store slug registry so renamed stores keep their old URLs
+function loadRedirects() {
+  const redirects = new Map();
+  try {
+    const content = fs.readFileSync(path.join(DIST_DIR, '_redirects'), 'utf-8');
+    content.split('\n').forEach(line => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) return;
+      const [from, to, status] = trimmed.split(/\s+/);
+      if (from && to) {
+        redirects.set(from, { to, status: parseInt(status, 10) || 301 });
+      }
+    });
+  } catch (err) {
+    // No _redirects file in this build
+  }
+  return redirects;
+}
+
+const redirects = loadRedirects();
+
 // MIME types
 const mimeTypes = {
   '.html': 'text/html',
@@ -23,6 +45,14 @@ const server = http.createServer((req, res) => {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] ${req.method} ${req.url} from ${req.connection.remoteAddress}`);
   
+  const redirect = redirects.get(req.url.split('?')[0]);
+  if (redirect) {
+    console.log(`[${timestamp}] ↪️  ${redirect.status} - ${req.url} -> ${redirect.to}`);
+    res.writeHead(redirect.status, { 'Location': redirect.to });
+    res.end();
+    return;
+  }
+  
   let filePath = path.join(DIST_DIR, req.url);
   
   // Handle directory requests - look for index.html
@@ -90,6 +120,7 @@ server.listen(PORT, HOST, () => {
   console.log(`🚀 Server running at http://${HOST}:${PORT}/`);
   console.log(`📱 Mobile: http://10.0.0.88:${PORT}/`);
   console.log(`📁 Serving files from: ${DIST_DIR}`);
+  console.log(`↪️  Redirects loaded: ${redirects.size}`);
   console.log(`🗺️ Map page: http://10.0.0.88:${PORT}/map/`);
   console.log('');
 }); 
\ No newline at end of file
@@ -1,31 +1,167 @@
 /** @jsxImportSource react */
-import { useEffect, useState, useMemo, useCallback } from 'react';
-import Map, { Marker, Popup } from 'react-map-gl/maplibre';
+import { useEffect, useState, useMemo, useCallback, useRef, type ReactNode } from 'react';
+import Map, {
+  Marker,
+  Popup,
+  Source,
+  Layer,
+  type ErrorEvent as MapErrorEvent,
+  type MapLayerMouseEvent,
+  type MapRef,
+  type MapSourceDataEvent
+} from 'react-map-gl/maplibre';
+import type { GeoJSONSource, Map as MapLibreMap, MapLibreEvent, StyleSpecification } from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import type { ProcessedBookstore } from '../../types/bookstore';
+import { formatDistance, type SearchOrigin, type StoreSearchResult } from '../../lib/search';
+import { getBounds, getCircleRing, getStoreCoordinates, haversineDistance, type BoundingBox } from '../../lib/geo';
+import { formatMapHash, parseMapHash, updateUrl } from '../../lib/urlState';
+import { loadMapStyle, MAP_TILE_CONFIG } from '../../lib/mapTiles';
 
 interface StoreMapGLProps {
-  stores: ProcessedBookstore[];
+  stores: StoreSearchResult[];
+  // Centre of a radius search, drawn with its radius and framed on change
+  origin?: SearchOrigin | null;
+  radiusKm?: number | null;
+  // Store whose popup is open, by slug; when given, the popup follows it
+  selectedStoreSlug?: string | null;
+  onSelectStore?: (store: StoreSearchResult | null) => void;
+  // Store hovered in a list alongside, ringed on the map
+  highlightedStoreId?: string | null;
+  // Called as the pointer moves onto and off store markers
+  onHoverStore?: (store: StoreSearchResult | null) => void;
+  // Called with the visible area whenever the map settles
+  onBoundsChange?: (bounds: BoundingBox) => void;
+  // Area to frame whenever it changes, e.g. the stores of a chosen province
+  fitBounds?: BoundingBox | null;
+  // Shown instead of the map when the basemap can't be loaded, e.g.
+  // StaticMapFallback passed in through an Astro slot
+  fallback?: ReactNode;
   height?: string;
   className?: string;
 }
 
-// Helper function to calculate distance between two points using Haversine formula
-const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLng = (lng2 - lng1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLng/2) * Math.sin(dLng/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  const distance = R * c;
-  return distance;
+// Stores are drawn from one GeoJSON source, clustered until this zoom
+const STORE_SOURCE = 'stores';
+const CLUSTER_MAX_ZOOM = 14;
+const CLUSTER_RADIUS = 50;
+const CLUSTER_LAYER = 'store-clusters';
+const STORE_LAYER = 'store-points';
+const SPIDER_POINT_LAYER = 'store-spider-points';
+const INTERACTIVE_LAYERS = [CLUSTER_LAYER, STORE_LAYER, SPIDER_POINT_LAYER];
+const STORE_ICON = 'store-marker';
+// Glyphs served by the map style, for cluster counts
+const LABEL_FONT = MAP_TILE_CONFIG.labelFont;
+// Sources added here; errors from any other come from the basemap
+const OWN_SOURCES = new Set([STORE_SOURCE, 'store-spider', 'store-highlight', 'search-radius']);
+// How long the basemap gets to draw before the fallback is shown instead
+const MAP_LOAD_TIMEOUT_MS = 15000;
+
+// Spiderfy layout, in screen pixels: a ring for small stacks, a spiral past it
+const SPIDER_RING_MAX = 8;
+const SPIDER_RING_SPACING = 36;
+const SPIDER_SPIRAL_SEPARATION = 28;
+const SPIDER_SPIRAL_START = 22;
+const SPIDER_SPIRAL_GROWTH = 5;
+
+// Stores sharing exact coordinates, e.g. several shops in one building
+interface SpiderLeg {
+  store: StoreSearchResult;
+  longitude: number;
+  latitude: number;
+}
+
+interface Spider {
+  longitude: number;
+  latitude: number;
+  legs: SpiderLeg[];
+}
+
+// A cluster or store stack drawn on the canvas, which gets a focusable
+// stand-in so the stores can be reached from the keyboard
+interface RenderedPoint {
+  key: string;
+  clusterId: number | null;
+  count: number;
+  longitude: number;
+  latitude: number;
+}
+
+// Padding around an area framed with fitBounds, and how far in it may zoom
+const FIT_PADDING = 40;
+const FIT_MAX_ZOOM = 12;
+
+const getMapBounds = (map: MapLibreMap): BoundingBox => {
+  const bounds = map.getBounds();
+  return { north: bounds.getNorth(), south: bounds.getSouth(), east: bounds.getEast(), west: bounds.getWest() };
+};
+
+const getCoordinateKey = (point: { lat: number; lng: number }) => `${point.lat.toFixed(6)},${point.lng.toFixed(6)}`;
+
+// Pixel offsets fanning `count` markers out around a shared point
+const getSpiderOffsets = (count: number): Array<[number, number]> => {
+  if (count <= SPIDER_RING_MAX) {
+    const radius = Math.max(SPIDER_RING_SPACING, (SPIDER_RING_SPACING * count) / (2 * Math.PI));
+    return Array.from({ length: count }, (_, index) => {
+      const angle = (2 * Math.PI * index) / count - Math.PI / 2;
+      return [radius * Math.cos(angle), radius * Math.sin(angle)];
+    });
+  }
+
+  const offsets: Array<[number, number]> = [];
+  let angle = 0;
+  let radius = SPIDER_SPIRAL_START;
+  for (let index = 0; index < count; index++) {
+    angle += SPIDER_SPIRAL_SEPARATION / radius;
+    offsets.push([radius * Math.cos(angle), radius * Math.sin(angle)]);
+    radius += (2 * Math.PI * SPIDER_SPIRAL_GROWTH) / angle;
+  }
+  return offsets;
+};
+
+// The 📚 marker drawn once into the map's sprite, at twice the display size
+const createStoreIcon = (): ImageData | null => {
+  const size = 64;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.beginPath();
+  context.arc(size / 2, size / 2, size / 2 - 4, 0, 2 * Math.PI);
+  context.fillStyle = '#ffffff';
+  context.fill();
+  context.lineWidth = 4;
+  context.strokeStyle = '#2563eb';
+  context.stroke();
+  context.font = '30px sans-serif';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText('📚', size / 2, size / 2 + 2);
+  return context.getImageData(0, 0, size, size);
+};
+
+// Zoom level that fits a radius search on screen
+const getRadiusZoom = (radiusKm: number | null | undefined): number => {
+  if (!radiusKm) return 10;
+  if (radiusKm <= 5) return 12;
+  if (radiusKm <= 10) return 11;
+  if (radiusKm <= 25) return 10;
+  if (radiusKm <= 50) return 9;
+  return 8;
 };
 
 export default function StoreMapGL({ 
   stores, 
+  origin = null,
+  radiusKm = null,
+  selectedStoreSlug,
+  onSelectStore,
+  highlightedStoreId = null,
+  onHoverStore,
+  onBoundsChange,
+  fitBounds = null,
+  fallback,
   height = "100%",
   className = ""
 }: StoreMapGLProps) {
@@ -33,7 +169,18 @@ export default function StoreMapGL({
   const [locationError, setLocationError] = useState<string | null>(null);
   const [isLoadingLocation, setIsLoadingLocation] = useState(true);
   const [selectedStore, setSelectedStore] = useState<ProcessedBookstore | null>(null);
-  const [popupInfo, setPopupInfo] = useState<{store: ProcessedBookstore, latitude: number, longitude: number} | null>(null);
+  const [popupInfo, setPopupInfo] = useState<{store: StoreSearchResult, latitude: number, longitude: number} | null>(null);
+  const [spider, setSpider] = useState<Spider | null>(null);
+  const [renderedPoints, setRenderedPoints] = useState<RenderedPoint[]>([]);
+  const [cursor, setCursor] = useState('');
+  const mapRef = useRef<MapRef>(null);
+  // Style for the configured tiles, and whether they turned out unreachable
+  const [mapStyle, setMapStyle] = useState<string | StyleSpecification | null>(null);
+  const [tilesFailed, setTilesFailed] = useState(false);
+  // State as well as a ref, so effects needing the map can wait for it
+  const [isMapLoaded, setIsMapLoaded] = useState(false);
+  const isMapLoadedRef = useRef(false);
+  const hasBasemapTileRef = useRef(false);
 
   // Initial view state - centered on Canada
   const [viewState, setViewState] = useState({
@@ -41,17 +188,141 @@ export default function StoreMapGL({
     latitude: 56.1304,
     zoom: 4
   });
+  // Set when the view came from a #map= link, which then wins over
+  // centring on the user or framing the search origin at load
+  const hasLinkedViewRef = useRef(false);
+  const isFirstFrameRef = useRef(true);
+  const isFirstFitRef = useRef(true);
+  // Store last reported to onHoverStore, so moves within a marker stay quiet
+  const hoveredStoreIdRef = useRef<string | null>(null);
+
+  // Restore the map position from the URL hash, on load and on back/forward
+  useEffect(() => {
+    const restoreViewport = () => {
+      const viewport = parseMapHash(window.location.hash);
+      if (viewport) {
+        setViewState(prev => ({ ...prev, ...viewport }));
+      }
+      return viewport !== null;
+    };
+
+    hasLinkedViewRef.current = restoreViewport();
+    window.addEventListener('popstate', restoreViewport);
+    window.addEventListener('hashchange', restoreViewport);
+    return () => {
+      window.removeEventListener('popstate', restoreViewport);
+      window.removeEventListener('hashchange', restoreViewport);
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMapStyle()
+      .then(style => {
+        if (!cancelled) setMapStyle(style);
+      })
+      .catch(error => {
+        console.error('Could not prepare the map style:', error);
+        if (!cancelled) setTilesFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // A stalled connection may never error, so stop waiting after a while
+  useEffect(() => {
+    if (tilesFailed) return;
+    const timer = window.setTimeout(() => {
+      if (isMapLoadedRef.current) return;
+      console.warn('Map did not load in time, showing the static map instead');
+      setTilesFailed(true);
+    }, MAP_LOAD_TIMEOUT_MS);
+    return () => window.clearTimeout(timer);
+  }, [tilesFailed]);
 
   // Filter and process stores
   const validStores = useMemo(() => {
     console.log(`StoreMapGL displaying ${stores.length} stores`);
-    return stores.filter(store => {
-      const lat = parseFloat(store.lat);
-      const lng = parseFloat(store.lng);
-      return !isNaN(lat) && !isNaN(lng) && lat !== 0 && lng !== 0;
-    });
+    return stores.filter(store => getStoreCoordinates(store) !== null);
   }, [stores]);
 
+  // One feature per distinct location; stores stacked on the same spot are
+  // counted in stackSize and fanned out when clicked
+  const storeGroups = useMemo(() => {
+    const groups = new globalThis.Map<string, StoreSearchResult[]>();
+    validStores.forEach(store => {
+      const key = getCoordinateKey(getStoreCoordinates(store)!);
+      groups.set(key, [...(groups.get(key) || []), store]);
+    });
+    return groups;
+  }, [validStores]);
+
+  const storeFeatures = useMemo(() => ({
+    type: 'FeatureCollection' as const,
+    features: [...storeGroups.entries()].map(([key, group]) => {
+      const { lat, lng } = getStoreCoordinates(group[0])!;
+      return {
+        type: 'Feature' as const,
+        properties: { key, stackSize: group.length },
+        geometry: { type: 'Point' as const, coordinates: [lng, lat] }
+      };
+    })
+  }), [storeGroups]);
+
+  const spiderFeatures = useMemo(() => {
+    if (!spider) return null;
+    return {
+      type: 'FeatureCollection' as const,
+      features: spider.legs.flatMap(({ store, longitude, latitude }) => [
+        {
+          type: 'Feature' as const,
+          properties: { id: store.id },
+          geometry: {
+            type: 'LineString' as const,
+            coordinates: [[spider.longitude, spider.latitude], [longitude, latitude]]
+          }
+        },
+        {
+          type: 'Feature' as const,
+          properties: { id: store.id },
+          geometry: { type: 'Point' as const, coordinates: [longitude, latitude] }
+        }
+      ])
+    };
+  }, [spider]);
+
+  const highlightFeature = useMemo(() => {
+    const store = highlightedStoreId ? validStores.find(candidate => candidate.id === highlightedStoreId) : undefined;
+    const point = store && getStoreCoordinates(store);
+    if (!point) return null;
+    return {
+      type: 'Feature' as const,
+      properties: {},
+      geometry: { type: 'Point' as const, coordinates: [point.lng, point.lat] }
+    };
+  }, [highlightedStoreId, validStores]);
+
+  // Frame the requested area, unless a #map= link set the view at load. An
+  // area asked for before the map loaded, e.g. a province from the URL, is
+  // framed once it has.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!fitBounds || !map || !isMapLoaded) return;
+    const isFirstFit = isFirstFitRef.current;
+    isFirstFitRef.current = false;
+    if (isFirstFit && hasLinkedViewRef.current) return;
+    map.fitBounds(
+      [[fitBounds.west, fitBounds.south], [fitBounds.east, fitBounds.north]],
+      { padding: FIT_PADDING, maxZoom: FIT_MAX_ZOOM }
+    );
+  }, [fitBounds, isMapLoaded]);
+
+  // A new set of results leaves nothing to fan out
+  useEffect(() => {
+    setSpider(null);
+  }, [validStores]);
+
   // Get user's location
   useEffect(() => {
     if (typeof window === 'undefined' || !navigator.geolocation) {
@@ -72,7 +343,8 @@ export default function StoreMapGL({
         setUserLocation(userPos);
         setIsLoadingLocation(false);
         
-        // Center map on user location
+        // Center map on user location, unless a link said where to look
+        if (hasLinkedViewRef.current) return;
         setViewState(prev => ({
           ...prev,
           longitude: userPos.longitude,
@@ -95,8 +367,37 @@ export default function StoreMapGL({
     );
   }, []);
 
+  // Frame the radius search whenever its centre or radius changes
+  useEffect(() => {
+    const isFirstFrame = isFirstFrameRef.current;
+    isFirstFrameRef.current = false;
+    if (!origin || (isFirstFrame && hasLinkedViewRef.current)) return;
+    setViewState(prev => ({
+      ...prev,
+      longitude: origin.lng,
+      latitude: origin.lat,
+      zoom: getRadiusZoom(radiusKm)
+    }));
+  }, [origin, radiusKm]);
+
+  const radiusArea = useMemo(() => {
+    if (!origin || !radiusKm) return null;
+    return {
+      type: 'Feature' as const,
+      properties: {},
+      geometry: { type: 'Polygon' as const, coordinates: [getCircleRing(origin, radiusKm)] }
+    };
+  }, [origin, radiusKm]);
+
+  // Follow the selected store when the parent controls it, e.g. from the URL
+  useEffect(() => {
+    if (selectedStoreSlug === undefined) return;
+    const store = selectedStoreSlug ? validStores.find(candidate => candidate.slug === selectedStoreSlug) : undefined;
+    setPopupInfo(store ? { store, latitude: parseFloat(store.lat), longitude: parseFloat(store.lng) } : null);
+  }, [selectedStoreSlug, validStores]);
+
   // Handle marker click
-  const onMarkerClick = useCallback((store: ProcessedBookstore) => {
+  const onMarkerClick = useCallback((store: StoreSearchResult) => {
     const lat = parseFloat(store.lat);
     const lng = parseFloat(store.lng);
     
@@ -105,48 +406,181 @@ export default function StoreMapGL({
       latitude: lat,
       longitude: lng
     });
+    onSelectStore?.(store);
+  }, [onSelectStore]);
+
+  // Fan stacked stores out around their shared point, in screen space at the
+  // current zoom; zooming folds them back
+  const spiderfy = useCallback((group: StoreSearchResult[]) => {
+    const map = mapRef.current;
+    if (!map) return;
+    const { lat, lng } = getStoreCoordinates(group[0])!;
+    const center = map.project([lng, lat]);
+    const legs = getSpiderOffsets(group.length).map(([dx, dy], index) => {
+      const position = map.unproject([center.x + dx, center.y + dy]);
+      return { store: group[index], longitude: position.lng, latitude: position.lat };
+    });
+    setSpider({ longitude: lng, latitude: lat, legs });
+  }, []);
+
+  // Zoom in to where a cluster splits up
+  const expandCluster = useCallback(async (clusterId: number, center: [number, number]) => {
+    const map = mapRef.current;
+    const source = map?.getSource(STORE_SOURCE) as GeoJSONSource | undefined;
+    if (!map || !source) return;
+    try {
+      const zoom = await source.getClusterExpansionZoom(clusterId);
+      map.easeTo({ center, zoom });
+    } catch (error) {
+      // New results may have replaced the cluster since it was clicked
+      console.warn('Could not expand the store cluster:', error);
+    }
+  }, []);
+
+  // A single store opens its popup, a stack fans out
+  const openStack = useCallback((key: string) => {
+    const group = storeGroups.get(key);
+    if (!group) return;
+    if (group.length === 1) {
+      onMarkerClick(group[0]);
+    } else {
+      spiderfy(group);
+    }
+  }, [storeGroups, onMarkerClick, spiderfy]);
+
+  // Clusters and stacks on screen, north to south, for their keyboard stand-ins
+  const updateRenderedPoints = useCallback((map: MapLibreMap) => {
+    if (!map.getLayer(CLUSTER_LAYER) || !map.getLayer(STORE_LAYER)) return;
+    const points = new globalThis.Map<string, RenderedPoint>();
+    map.queryRenderedFeatures({ layers: [CLUSTER_LAYER, STORE_LAYER] }).forEach(feature => {
+      if (feature.geometry.type !== 'Point') return;
+      const [longitude, latitude] = feature.geometry.coordinates;
+      const isCluster = feature.layer.id === CLUSTER_LAYER;
+      const clusterId: number | null = isCluster ? feature.properties.cluster_id : null;
+      // Features crossing tile edges come back once per tile
+      const key: string = isCluster ? `cluster-${clusterId}` : feature.properties.key;
+      const count: number = isCluster ? feature.properties.storeCount : feature.properties.stackSize;
+      points.set(key, { key, clusterId, count, longitude, latitude });
+    });
+    setRenderedPoints([...points.values()].sort((a, b) => b.latitude - a.latitude || a.longitude - b.longitude));
   }, []);
 
+  // Clusters zoom in to where they split up, stacks fan out, single stores
+  // open their popup, and a click on empty map folds any fan away
+  const onMapClick = useCallback((event: MapLayerMouseEvent) => {
+    const feature = event.features?.[0];
+    if (!feature) {
+      setSpider(null);
+      return;
+    }
+
+    if (feature.layer.id === SPIDER_POINT_LAYER) {
+      const leg = spider?.legs.find(candidate => candidate.store.id === feature.properties.id);
+      if (leg) onMarkerClick(leg.store);
+      return;
+    }
+
+    setSpider(null);
+    if (feature.layer.id === CLUSTER_LAYER) {
+      if (feature.geometry.type !== 'Point') return;
+      expandCluster(feature.properties.cluster_id, feature.geometry.coordinates as [number, number]);
+      return;
+    }
+    openStack(feature.properties.key);
+  }, [spider, onMarkerClick, expandCluster, openStack]);
+
+  // The marker image lives in the style, so add it again if the style reloads
+  const onMapLoad = useCallback((event: MapLibreEvent) => {
+    const map = event.target;
+    isMapLoadedRef.current = true;
+    setIsMapLoaded(true);
+    onBoundsChange?.(getMapBounds(map));
+    const addIcon = () => {
+      if (map.hasImage(STORE_ICON)) return;
+      const icon = createStoreIcon();
+      if (icon) map.addImage(STORE_ICON, icon, { pixelRatio: 2 });
+    };
+    addIcon();
+    map.on('styleimagemissing', addIcon);
+    updateRenderedPoints(map);
+  }, [onBoundsChange, updateRenderedPoints]);
+
+  // Give up on the map when the basemap can't be drawn at all: the style
+  // failed before the map loaded, or the basemap source failed before any of
+  // its tiles arrived. Later misses only leave gaps, so the map stays.
+  const onMapError = useCallback((event: MapErrorEvent & { sourceId?: string }) => {
+    const { sourceId } = event;
+    if (sourceId ? OWN_SOURCES.has(sourceId) || hasBasemapTileRef.current : isMapLoadedRef.current) return;
+    console.error('Map tiles failed to load, showing the static map instead:', event.error);
+    setTilesFailed(true);
+  }, []);
+
+  const onSourceData = useCallback((event: MapSourceDataEvent) => {
+    if (event.tile && !OWN_SOURCES.has(event.sourceId)) hasBasemapTileRef.current = true;
+    // New results redraw the stores without the map moving
+    const map = mapRef.current?.getMap();
+    if (map && event.sourceId === STORE_SOURCE && event.isSourceLoaded) updateRenderedPoints(map);
+  }, [updateRenderedPoints]);
+
   // Close popup
   const onPopupClose = useCallback(() => {
     setPopupInfo(null);
-  }, []);
+    onSelectStore?.(null);
+  }, [onSelectStore]);
+
+  // Keep the hash in step with the map once it settles. Panning replaces the
+  // history entry rather than adding one per drag.
+  const onMoveEnd = useCallback((event: MapLibreEvent) => {
+    updateUrl({ hash: formatMapHash(viewState) }, 'replace');
+    onBoundsChange?.(getMapBounds(event.target));
+    updateRenderedPoints(event.target);
+  }, [viewState, onBoundsChange, updateRenderedPoints]);
+
+  // Report the store under the pointer: a single store, the first of a
+  // stack, or a fanned-out one
+  const reportHover = useCallback((store: StoreSearchResult | null) => {
+    const id = store?.id ?? null;
+    if (id === hoveredStoreIdRef.current) return;
+    hoveredStoreIdRef.current = id;
+    onHoverStore?.(store);
+  }, [onHoverStore]);
+
+  const onMouseMove = useCallback((event: MapLayerMouseEvent) => {
+    const feature = event.features?.[0];
+    if (feature?.layer.id === STORE_LAYER) {
+      reportHover(storeGroups.get(feature.properties.key)?.[0] ?? null);
+    } else if (feature?.layer.id === SPIDER_POINT_LAYER) {
+      reportHover(spider?.legs.find(leg => leg.store.id === feature.properties.id)?.store ?? null);
+    } else {
+      reportHover(null);
+    }
+  }, [reportHover, storeGroups, spider]);
 
   // Calculate distance for display
-  const getDistanceText = useCallback((store: ProcessedBookstore) => {
+  const getDistanceText = useCallback((store: StoreSearchResult) => {
+    // Prefer the distance from the search origin the results were filtered by
+    if (store.distanceKm !== undefined && origin) {
+      return `${formatDistance(store.distanceKm)} from ${origin.source === 'device' ? 'you' : origin.label}`;
+    }
     if (!userLocation) return null;
     
-    const lat = parseFloat(store.lat);
-    const lng = parseFloat(store.lng);
-    const distance = calculateDistance(userLocation.latitude, userLocation.longitude, lat, lng);
+    const point = getStoreCoordinates(store);
+    if (!point) return null;
+    const distance = haversineDistance({ lat: userLocation.latitude, lng: userLocation.longitude }, point);
     
-    return `${distance.toFixed(1)}km away`;
-  }, [userLocation]);
+    return `${formatDistance(distance)} away`;
+  }, [userLocation, origin]);
 
   // Fit map to show all stores
   const fitToStores = useCallback(() => {
     if (validStores.length === 0) return;
     
-    let minLat = Infinity, maxLat = -Infinity;
-    let minLng = Infinity, maxLng = -Infinity;
-    
-    validStores.forEach(store => {
-      const lat = parseFloat(store.lat);
-      const lng = parseFloat(store.lng);
-      
-      minLat = Math.min(minLat, lat);
-      maxLat = Math.max(maxLat, lat);
-      minLng = Math.min(minLng, lng);
-      maxLng = Math.max(maxLng, lng);
-    });
-    
+    const points = validStores.map(store => getStoreCoordinates(store)!);
     // Add user location to bounds if available
     if (userLocation) {
-      minLat = Math.min(minLat, userLocation.latitude);
-      maxLat = Math.max(maxLat, userLocation.latitude);
-      minLng = Math.min(minLng, userLocation.longitude);
-      maxLng = Math.max(maxLng, userLocation.longitude);
+      points.push({ lat: userLocation.latitude, lng: userLocation.longitude });
     }
+    const { north: maxLat, south: minLat, east: maxLng, west: minLng } = getBounds(points)!;
     
     // Calculate center and zoom
     const centerLat = (minLat + maxLat) / 2;
@@ -171,100 +605,253 @@ export default function StoreMapGL({
     });
   }, [validStores, userLocation]);
 
+  if (tilesFailed) {
+    return (
+      <div className={`overflow-auto ${className}`} style={{ height }}>
+        {fallback ?? (
+          <div className="w-full h-full flex items-center justify-center bg-gray-100 p-6 text-center" style={{ minHeight: '400px' }}>
+            <p className="text-gray-600">The map couldn't be loaded. Stores are still listed alongside it.</p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className={`relative ${className}`} style={{ height }}>
-      {/* Map container */}
+      {/* Map container, held back until the tile style is ready */}
       <div className="w-full h-full" style={{ minHeight: '400px' }}>
-        <Map
-          {...viewState}
-          onMove={evt => setViewState(evt.viewState)}
-          mapStyle="https://demotiles.maplibre.org/style.json"
-          style={{ width: '100%', height: '100%' }}
-        >
-          {/* User location marker */}
-          {userLocation && (
-            <Marker
-              longitude={userLocation.longitude}
-              latitude={userLocation.latitude}
-              anchor="center"
-            >
-              <div className="user-location-marker">
-                <div className="user-marker-pulse"></div>
-                <div className="user-marker-dot">📍</div>
-              </div>
-            </Marker>
-          )}
-
-          {/* Store markers */}
-          {validStores.map((store, index) => {
-            const lat = parseFloat(store.lat);
-            const lng = parseFloat(store.lng);
-            
-            return (
+        {!mapStyle ? (
+          <div className="w-full h-full bg-gray-100 animate-pulse" />
+        ) : (
+          <Map
+            {...viewState}
+            onMove={evt => setViewState(evt.viewState)}
+            onMoveEnd={onMoveEnd}
+            onZoomStart={() => setSpider(null)}
+            onLoad={onMapLoad}
+            onError={onMapError}
+            onSourceData={onSourceData}
+            onClick={onMapClick}
+            onMouseEnter={() => setCursor('pointer')}
+            onMouseMove={onMouseMove}
+            onMouseLeave={() => {
+              setCursor('');
+              reportHover(null);
+            }}
+            interactiveLayerIds={INTERACTIVE_LAYERS}
+            cursor={cursor}
+            ref={mapRef}
+            mapStyle={mapStyle}
+            style={{ width: '100%', height: '100%' }}
+          >
+            {/* Radius search area */}
+            {radiusArea && (
+              <Source id="search-radius" type="geojson" data={radiusArea}>
+                <Layer
+                  id="search-radius-fill"
+                  type="fill"
+                  paint={{ 'fill-color': '#3b82f6', 'fill-opacity': 0.08 }}
+                />
+                <Layer
+                  id="search-radius-outline"
+                  type="line"
+                  paint={{ 'line-color': '#2563eb', 'line-width': 2, 'line-dasharray': [2, 2] }}
+                />
+              </Source>
+            )}
+
+            {/* Typed search origin marker */}
+            {origin && origin.source === 'place' && (
+              <Marker
+                longitude={origin.lng}
+                latitude={origin.lat}
+                anchor="bottom"
+              >
+                <div className="text-2xl" title={origin.label}>📌</div>
+              </Marker>
+            )}
+
+            {/* User location marker */}
+            {userLocation && (
               <Marker
-                key={`${store.name}-${index}`}
-                longitude={lng}
-                latitude={lat}
+                longitude={userLocation.longitude}
+                latitude={userLocation.latitude}
                 anchor="center"
               >
-                <button
-                  className="store-marker-button"
-                  onClick={() => onMarkerClick(store)}
-                  title={store.name}
-                >
-                  <div className="store-marker">
-                    <span className="marker-icon">📚</span>
-                  </div>
-                </button>
+                <div className="user-location-marker">
+                  <div className="user-marker-pulse"></div>
+                  <div className="user-marker-dot">📍</div>
+                </div>
               </Marker>
-            );
-          })}
-
-          {/* Popup */}
-          {popupInfo && (
-            <Popup
-              longitude={popupInfo.longitude}
-              latitude={popupInfo.latitude}
-              anchor="bottom"
-              onClose={onPopupClose}
-              closeButton={true}
-              closeOnClick={false}
+            )}
+
+            {/* Stores, clustered into count bubbles until zoomed in */}
+            <Source
+              id={STORE_SOURCE}
+              type="geojson"
+              data={storeFeatures}
+              cluster={true}
+              clusterMaxZoom={CLUSTER_MAX_ZOOM}
+              clusterRadius={CLUSTER_RADIUS}
+              // Bubbles count stores, not the stacks they were grouped into
+              clusterProperties={{ storeCount: ['+', ['get', 'stackSize']] }}
             >
-              <div className="store-popup">
-                <h3 className="font-bold text-lg mb-2">{popupInfo.store.name}</h3>
-                <p className="text-gray-600 mb-1">{popupInfo.store.address}</p>
-                <p className="text-gray-600 mb-2">{popupInfo.store.city}, {popupInfo.store.province}</p>
-                
-                {getDistanceText(popupInfo.store) && (
-                  <p className="text-sm mb-1 text-blue-600">📍 {getDistanceText(popupInfo.store)}</p>
-                )}
-                
-                {popupInfo.store.phone && (
-                  <p className="text-sm mb-1">📞 {popupInfo.store.phone}</p>
-                )}
-                
-                {popupInfo.store.website && (
-                  <p className="text-sm mb-1">
-                    <a 
-                      href={popupInfo.store.website} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:underline"
-                    >
-                      🌐 Website
-                    </a>
-                  </p>
-                )}
-                
-                {popupInfo.store.ratingInfo && (
-                  <p className="text-sm">
-                    ⭐ {popupInfo.store.ratingInfo.rating}/5 ({popupInfo.store.ratingInfo.numReviews} reviews)
-                  </p>
-                )}
-              </div>
-            </Popup>
-          )}
-        </Map>
+              <Layer
+                id={CLUSTER_LAYER}
+                type="circle"
+                filter={['has', 'point_count']}
+                paint={{
+                  'circle-color': ['step', ['get', 'storeCount'], '#60a5fa', 10, '#2563eb', 50, '#1e3a8a'],
+                  'circle-radius': ['step', ['get', 'storeCount'], 16, 10, 20, 50, 26],
+                  'circle-stroke-width': 2,
+                  'circle-stroke-color': '#ffffff'
+                }}
+              />
+              <Layer
+                id="store-cluster-counts"
+                type="symbol"
+                filter={['has', 'point_count']}
+                layout={{
+                  'text-field': ['to-string', ['get', 'storeCount']],
+                  'text-font': LABEL_FONT,
+                  'text-size': 13,
+                  'text-allow-overlap': true
+                }}
+                paint={{ 'text-color': '#ffffff' }}
+              />
+              <Layer
+                id={STORE_LAYER}
+                type="symbol"
+                filter={['!', ['has', 'point_count']]}
+                layout={{
+                  'icon-image': STORE_ICON,
+                  'icon-allow-overlap': true,
+                  // Stacks show how many stores share the spot
+                  'text-field': ['case', ['>', ['get', 'stackSize'], 1], ['to-string', ['get', 'stackSize']], ''],
+                  'text-font': LABEL_FONT,
+                  'text-size': 11,
+                  'text-offset': [1.1, -1.1],
+                  'text-allow-overlap': true
+                }}
+                paint={{ 'text-color': '#1d4ed8', 'text-halo-color': '#ffffff', 'text-halo-width': 2 }}
+              />
+            </Source>
+
+            {/* Ring around the store hovered in the list */}
+            {highlightFeature && (
+              <Source id="store-highlight" type="geojson" data={highlightFeature}>
+                <Layer
+                  id="store-highlight-ring"
+                  type="circle"
+                  paint={{
+                    'circle-radius': 22,
+                    'circle-color': '#f59e0b',
+                    'circle-opacity': 0.3,
+                    'circle-stroke-color': '#d97706',
+                    'circle-stroke-width': 2
+                  }}
+                />
+              </Source>
+            )}
+
+            {/* Stacked stores fanned out on legs from their shared point */}
+            {spiderFeatures && (
+              <Source id="store-spider" type="geojson" data={spiderFeatures}>
+                <Layer
+                  id="store-spider-legs"
+                  type="line"
+                  filter={['==', ['geometry-type'], 'LineString']}
+                  paint={{ 'line-color': '#2563eb', 'line-width': 1.5, 'line-opacity': 0.7 }}
+                />
+                <Layer
+                  id={SPIDER_POINT_LAYER}
+                  type="symbol"
+                  filter={['==', ['geometry-type'], 'Point']}
+                  layout={{ 'icon-image': STORE_ICON, 'icon-allow-overlap': true }}
+                />
+              </Source>
+            )}
+
+            {/* Focusable stand-ins for the clusters and stores drawn above.
+                Clicks pass through them to the map; Enter does the same. */}
+            {renderedPoints.map(point => {
+              const group = point.clusterId === null ? storeGroups.get(point.key) : undefined;
+              const label = point.clusterId !== null
+                ? `${point.count} stores, zoom in`
+                : group?.length === 1
+                  ? group[0].name
+                  : `${point.count} stores at ${group?.[0].address ?? 'this spot'}`;
+              return (
+                <Marker key={point.key} longitude={point.longitude} latitude={point.latitude} anchor="center" style={{ pointerEvents: 'none' }}>
+                  <button
+                    type="button"
+                    className="map-keyboard-target"
+                    aria-label={label}
+                    onClick={() => point.clusterId === null
+                      ? openStack(point.key)
+                      : expandCluster(point.clusterId, [point.longitude, point.latitude])}
+                  />
+                </Marker>
+              );
+            })}
+            {spider?.legs.map(leg => (
+              <Marker key={`spider-${leg.store.id}`} longitude={leg.longitude} latitude={leg.latitude} anchor="center" style={{ pointerEvents: 'none' }}>
+                <button
+                  type="button"
+                  className="map-keyboard-target"
+                  aria-label={leg.store.name}
+                  onClick={() => onMarkerClick(leg.store)}
+                />
+              </Marker>
+            ))}
+
+            {/* Popup */}
+            {popupInfo && (
+              <Popup
+                longitude={popupInfo.longitude}
+                latitude={popupInfo.latitude}
+                anchor="bottom"
+                onClose={onPopupClose}
+                closeButton={true}
+                closeOnClick={false}
+              >
+                <div className="store-popup">
+                  <h3 className="font-bold text-lg mb-2">{popupInfo.store.name}</h3>
+                  <p className="text-gray-600 mb-1">{popupInfo.store.address}</p>
+                  <p className="text-gray-600 mb-2">{popupInfo.store.city}, {popupInfo.store.province}</p>
+                  
+                  {getDistanceText(popupInfo.store) && (
+                    <p className="text-sm mb-1 text-blue-600">📍 {getDistanceText(popupInfo.store)}</p>
+                  )}
+                  
+                  {popupInfo.store.phone && (
+                    <p className="text-sm mb-1">📞 {popupInfo.store.phone}</p>
+                  )}
+                  
+                  {popupInfo.store.website && (
+                    <p className="text-sm mb-1">
+                      <a 
+                        href={popupInfo.store.website} 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        🌐 Website
+                      </a>
+                    </p>
+                  )}
+                  
+                  {popupInfo.store.ratingInfo && (
+                    <p className="text-sm">
+                      ⭐ {popupInfo.store.ratingInfo.rating}/5 ({popupInfo.store.ratingInfo.numReviews} reviews)
+                    </p>
+                  )}
+                </div>
+              </Popup>
+            )}
+          </Map>
+        )}
       </div>
 
       {/* Loading indicator */}
@@ -371,34 +958,20 @@ export default function StoreMapGL({
           }
         }
 
-        /* Store marker styles */
-        .store-marker-button {
-          background: none;
-          border: none;
-          cursor: pointer;
-          padding: 0;
-        }
-        
-        .store-marker {
+        /* Invisible until focused from the keyboard */
+        .map-keyboard-target {
+          display: block;
           width: 32px;
           height: 32px;
-          display: flex;
-          align-items: center;
-          justify-content: center;
+          padding: 0;
+          border: 0;
           border-radius: 50%;
-          background: white;
-          border: 2px solid #2563eb;
-          box-shadow: 0 2px 4px rgba(0,0,0,0.2);
-          transition: all 0.2s;
+          background: transparent;
         }
-        
-        .store-marker:hover {
-          transform: scale(1.1);
-          box-shadow: 0 4px 8px rgba(0,0,0,0.3);
-        }
-        
-        .marker-icon {
-          font-size: 16px;
+
+        .map-keyboard-target:focus-visible {
+          outline: 3px solid #f59e0b;
+          outline-offset: 2px;
         }
 
         /* Popup styles */
@@ -0,0 +1,146 @@
+/** @jsxImportSource react */
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { DISTANCE_OPTIONS, getCachedLocation, resolveLocationQuery, type SearchOrigin } from '../../lib/search';
+import type { ProcessedBookstore } from '../../types/bookstore';
+
+interface LocationFilterProps {
+  stores: ProcessedBookstore[];
+  origin: SearchOrigin | null;
+  maxDistance: number | null;
+  onOriginChange: (origin: SearchOrigin | null) => void;
+  onMaxDistanceChange: (maxDistance: number | null) => void;
+  // Prefix for element IDs when more than one filter is on the page
+  idPrefix?: string;
+}
+
+export default function LocationFilter({
+  stores,
+  origin,
+  maxDistance,
+  onOriginChange,
+  onMaxDistanceChange,
+  idPrefix = ''
+}: LocationFilterProps) {
+  const [locationQuery, setLocationQuery] = useState('');
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!locationQuery.trim()) {
+      setLocationError(null);
+      onOriginChange(null);
+      return;
+    }
+
+    const resolved = resolveLocationQuery(stores, locationQuery);
+    if (resolved) {
+      setLocationError(null);
+      onOriginChange(resolved);
+    } else {
+      setLocationError(`No bookstores listed in "${locationQuery.trim()}". Try a nearby city or postal code.`);
+    }
+  };
+
+  const handleUseMyLocation = async () => {
+    setIsLocating(true);
+    setLocationError(null);
+    try {
+      const position = await getCachedLocation();
+      if (position) {
+        setLocationQuery('');
+        onOriginChange({ ...position, label: 'Your location', source: 'device' });
+      } else {
+        setLocationError('Your location is unavailable. Enter a city or postal code instead.');
+      }
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleClear = () => {
+    setLocationQuery('');
+    setLocationError(null);
+    onOriginChange(null);
+  };
+
+  const locationId = `${idPrefix}location`;
+  const distanceId = `${idPrefix}maxDistance`;
+
+  return (
+    <div className="space-y-2">
+      <form onSubmit={handleSubmit}>
+        <label htmlFor={locationId} className="block text-sm font-medium text-gray-700">
+          Near
+        </label>
+        <div className="mt-1 flex gap-2">
+          <input
+            id={locationId}
+            type="text"
+            value={locationQuery}
+            onChange={e => setLocationQuery(e.target.value)}
+            placeholder="City or postal code"
+            className="flex-1 min-w-0 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:ring-blue-500 focus:ring-2 focus:outline-none"
+            aria-describedby={`${locationId}-status`}
+          />
+          <button
+            type="submit"
+            className="px-2 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Go
+          </button>
+        </div>
+      </form>
+
+      <button
+        type="button"
+        onClick={handleUseMyLocation}
+        disabled={isLocating}
+        className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+      >
+        {isLocating ? 'Getting your location...' : '📍 Use my location'}
+      </button>
+
+      <div id={`${locationId}-status`} aria-live="polite">
+        {locationError ? (
+          <p className="text-xs text-red-600">{locationError}</p>
+        ) : origin ? (
+          <p className="text-xs text-gray-600">
+            Distances from <strong>{origin.label}</strong>{' '}
+            <button
+              type="button"
+              onClick={handleClear}
+              className="text-blue-600 hover:text-blue-800 underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+            >
+              clear
+            </button>
+          </p>
+        ) : null}
+      </div>
+
+      <div>
+        <label htmlFor={distanceId} className="block text-sm font-medium text-gray-700">
+          Maximum Distance (km)
+        </label>
+        <select
+          id={distanceId}
+          value={maxDistance || ''}
+          onChange={e => onMaxDistanceChange(e.target.value ? Number(e.target.value) : null)}
+          disabled={!origin}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 focus:ring-2 disabled:bg-gray-100 disabled:text-gray-400"
+        >
+          <option value="">Any Distance</option>
+          {DISTANCE_OPTIONS.map(distance => (
+            <option key={distance} value={distance}>
+              Within {distance} km
+            </option>
+          ))}
+        </select>
+        {!origin && (
+          <p className="mt-1 text-xs text-gray-500">Set a location to filter by distance</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 /** @jsxImportSource react */
-import { useState, type KeyboardEvent, memo, useMemo } from 'react';
-import type { ProcessedBookstore } from '../../types/bookstore';
+import { useState, useEffect, type KeyboardEvent, memo, useMemo } from 'react';
+import { formatDistance, type StoreSearchResult } from '../../lib/search';
 import { getImageFallbacks } from '../../utils/images';
+import { getStoreStatus, STORE_STATUS_STYLES, type StoreStatus } from '../../utils/storeHours';
 import { useLazyLoad } from '../../hooks/useLazyLoad';
 import ImageSkeleton from '../ui/ImageSkeleton';
 
 interface StoreCardProps {
-  store: ProcessedBookstore;
+  store: StoreSearchResult;
   onClick: () => void;
 }
 
@@ -19,11 +20,23 @@ function StoreCard({ store, onClick }: StoreCardProps) {
   
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [currentImageSrc, setCurrentImageSrc] = useState(fallbackImages[0]);
+
+  // Computed after mount so server-rendered markup doesn't depend on the build time
+  const [storeStatus, setStoreStatus] = useState<StoreStatus | null>(null);
+
+  useEffect(() => {
+    const updateStatus = () => setStoreStatus(getStoreStatus(store));
+    updateStatus();
+    const timer = setInterval(updateStatus, 60 * 1000);
+    return () => clearInterval(timer);
+  }, [store]);
   
   // Lazy loading hook
   const { elementRef, isVisible, isLoaded, handleImageLoad, handleImageError: onImageError } = useLazyLoad<HTMLButtonElement>({
     rootMargin: '200px 0px', // Start loading 200px before entering viewport
-    threshold: 0.1
+    threshold: 0.1,
+    // Cards remount as the list scrolls; don't flash a skeleton for a loaded image
+    cacheKey: currentImageSrc
   });
 
   // Handle image loading error by trying next fallback
@@ -115,8 +128,21 @@ function StoreCard({ store, onClick }: StoreCardProps) {
           {/* Location */}
           <p className="text-sm text-gray-500 mb-2 line-clamp-1">
             {store.city}, {store.province}
+            {store.distanceKm !== undefined && (
+              <span className="ml-2 text-blue-600">· {formatDistance(store.distanceKm)} away</span>
+            )}
           </p>
 
+          {/* Open/closed status */}
+          {storeStatus && storeStatus.kind !== 'unknown' && (
+            <span
+              className={`inline-flex items-center px-2 py-0.5 mb-2 rounded-full text-xs font-medium ${STORE_STATUS_STYLES[storeStatus.kind]}`}
+              title={storeStatus.reason}
+            >
+              {storeStatus.label}
+            </span>
+          )}
+
           {/* Rating */}
           {store.ratingInfo && (
             <div className="flex items-center gap-1 mb-3">
@@ -181,6 +207,7 @@ export default memo(StoreCard, (prevProps, nextProps) => {
     prevProps.store.place_id === nextProps.store.place_id &&
     prevProps.store.name === nextProps.store.name &&
     prevProps.store.status === nextProps.store.status &&
+    prevProps.store.distanceKm === nextProps.store.distanceKm &&
     prevProps.onClick === nextProps.onClick
   );
 }); 
\ No newline at end of file
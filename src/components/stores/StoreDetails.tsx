@@ -2,6 +2,8 @@
 import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
 import type { ProcessedBookstore } from '../../types/bookstore';
 import { getImageFallbacks } from '../../utils/images';
+import { formatReviewDate, getStarBreakdown } from '../../utils/reviews';
+import { getStoreStatus, getWeeklyHours, STORE_STATUS_STYLES } from '../../utils/storeHours';
 
 interface StoreDetailsProps {
   store: ProcessedBookstore;
@@ -84,21 +86,10 @@ export default function StoreDetails({ store, isOpen, onClose }: StoreDetailsPro
     return `${store.address}, ${store.city}, ${store.province} ${store.zip}`;
   };
 
-  const formatHours = () => {
-    const daysOfWeek = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
-    const dayLabels = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-    
-    return daysOfWeek.map((day, index) => {
-      const hours = store.hours[day as keyof typeof store.hours];
-      return {
-        day: dayLabels[index],
-        hours: hours || 'Closed'
-      };
-    });
-  };
-
   if (!isOpen) return null;
 
+  const storeStatus = getStoreStatus(store);
+
   return (
     <div 
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
@@ -230,12 +221,20 @@ export default function StoreDetails({ store, isOpen, onClose }: StoreDetailsPro
               {/* Hours */}
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Hours</h3>
+                {storeStatus.kind !== 'unknown' && (
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 mb-3 rounded-full text-xs font-medium ${STORE_STATUS_STYLES[storeStatus.kind]}`}
+                    title={storeStatus.reason}
+                  >
+                    {storeStatus.label}
+                  </span>
+                )}
                 <div className="space-y-2">
-                  {formatHours().map(({ day, hours }) => (
+                  {getWeeklyHours(store, new Date()).map(({ day, label, hours, text }) => (
                     <div key={day} className="flex justify-between items-center py-1">
-                      <span className="text-gray-600 font-medium">{day}</span>
-                      <span className={`text-sm ${hours === 'Closed' ? 'text-red-600' : 'text-gray-900'}`}>
-                        {hours}
+                      <span className="text-gray-600 font-medium">{label}</span>
+                      <span className={`text-sm ${hours.status === 'closed' ? 'text-red-600' : 'text-gray-900'}`}>
+                        {text}
                       </span>
                     </div>
                   ))}
@@ -247,28 +246,51 @@ export default function StoreDetails({ store, isOpen, onClose }: StoreDetailsPro
           {/* Reviews Section */}
           {store.ratingInfo?.reviews && store.ratingInfo.reviews.length > 0 && (
             <div className="mt-8 pt-8 border-t border-gray-200">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Reviews</h3>
-              <div className="space-y-4">
-                {store.ratingInfo.reviews.slice(0, 3).map((review, index) => (
-                  <div key={index} className="bg-gray-50 rounded-lg p-4">
-                    <div className="flex items-center mb-2">
-                      <div className="flex items-center">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Google Reviews ({store.ratingInfo.reviews.length})
+              </h3>
+
+              {/* Star Breakdown */}
+              <div className="mb-6 space-y-1 max-w-sm" aria-label="Rating breakdown">
+                {getStarBreakdown(store.ratingInfo.reviews).map(({ stars, count, percentage }) => (
+                  <div key={stars} className="flex items-center gap-2 text-sm">
+                    <span className="w-12 text-gray-600">{stars} star</span>
+                    <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-yellow-400 rounded-full"
+                        style={{ width: `${percentage}%` }}
+                      />
+                    </div>
+                    <span className="w-6 text-right text-gray-500">{count}</span>
+                  </div>
+                ))}
+              </div>
+
+              <ul className="space-y-4">
+                {store.ratingInfo.reviews.map((review) => (
+                  <li key={`${review.author}-${review.timestamp}`} className="bg-gray-50 rounded-lg p-4">
+                    <div className="flex flex-wrap items-center mb-2">
+                      <div className="flex items-center" aria-label={`${review.rating} out of 5 stars`}>
                         {[...Array(5)].map((_, i) => (
                           <img
                             key={i}
                             src="/images/logo.png"
-                            alt="Born Again Books logo"
+                            alt=""
                             className={`w-4 h-4 ${i < review.rating ? '' : 'opacity-30'}`}
                           />
                         ))}
                       </div>
                       <span className="ml-2 text-sm font-medium text-gray-900">{review.author}</span>
-                      <span className="ml-2 text-sm text-gray-500">{review.time}</span>
+                      <time dateTime={review.time} className="ml-2 text-sm text-gray-500">
+                        {formatReviewDate(review)}
+                      </time>
                     </div>
-                    <p className="text-gray-600 text-sm leading-relaxed">{review.text}</p>
-                  </div>
+                    {review.text && (
+                      <p className="text-gray-600 text-sm leading-relaxed whitespace-pre-line">{review.text}</p>
+                    )}
+                  </li>
                 ))}
-              </div>
+              </ul>
             </div>
           )}
         </div>
@@ -1,77 +1,95 @@
 /** @jsxImportSource react */
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import type { ProcessedBookstore } from '../../types/bookstore';
 import StoreSearch, { type StoreFilters } from './StoreSearch';
 import StoreList from './StoreList';
 import StoreDetails from './StoreDetails';
-import { searchStores, initializeSearch } from '../../lib/search';
+import type { StoreSearchResult } from '../../lib/search';
+import { createStoreSearchClient, type StoreSearchClient } from '../../lib/searchClient';
+import type { SearchIndexSource } from '../../lib/searchIndex';
+import type { StoreSortMode } from '../../lib/sorting';
+import { useSearchUrlState } from '../../hooks/useSearchUrlState';
 
 interface StoreDiscoveryProps {
   stores: ProcessedBookstore[];
+  // Prebuilt search index for these stores, from getSearchIndexAsset
+  searchIndex?: SearchIndexSource;
 }
 
-export default function StoreDiscovery({ stores }: StoreDiscoveryProps) {
-  const [filteredStores, setFilteredStores] = useState<ProcessedBookstore[]>(stores);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filters, setFilters] = useState<StoreFilters>({
-    hasWebsite: false,
-    minRating: 0,
-    province: '',
-    maxDistance: null,
-    openWeekends: false,
-  });
-  const [selectedStore, setSelectedStore] = useState<ProcessedBookstore | null>(null);
+export default function StoreDiscovery({ stores, searchIndex }: StoreDiscoveryProps) {
+  const [filteredStores, setFilteredStores] = useState<StoreSearchResult[]>(stores);
+  // Query, filters, sort and open store live in the URL so results can be shared
+  const { state: urlState, updateState } = useSearchUrlState();
+  const { query: searchQuery, filters, sortBy } = urlState;
   const [isSearching, setIsSearching] = useState(false);
 
-  // Initialize search when component mounts
+  const selectedStore = useMemo(
+    () => (urlState.store && stores.find(store => store.slug === urlState.store)) || null,
+    [stores, urlState.store]
+  );
+
+  // Search runs in a worker, started once per set of stores
+  const searchClientRef = useRef<StoreSearchClient | null>(null);
   useEffect(() => {
-    initializeSearch(stores);
-  }, [stores]);
+    const client = createStoreSearchClient(stores, searchIndex);
+    searchClientRef.current = client;
+    return () => {
+      client.dispose();
+      searchClientRef.current = null;
+    };
+  }, [stores, searchIndex]);
 
-  // Update filtered stores when search query or filters change
+  // Update filtered stores when search query or filters change. A newer
+  // change cancels the search still running for the previous one.
   useEffect(() => {
-    let isMounted = true;
+    const client = searchClientRef.current;
+    if (!client) return;
+    const controller = new AbortController();
 
     const updateSearch = async () => {
       setIsSearching(true);
       try {
-        const results = await searchStores(stores, searchQuery, filters);
-        if (isMounted) {
-          setFilteredStores(results);
-        }
+        const results = await client.search({ query: searchQuery, filters, sortBy }, controller.signal);
+        setFilteredStores(results);
       } catch (error) {
+        if (controller.signal.aborted) return;
         console.error('Error searching stores:', error);
-        if (isMounted) {
-          setFilteredStores(stores); // Fallback to all stores on error
-        }
-      } finally {
-        if (isMounted) {
-          setIsSearching(false);
-        }
+        setFilteredStores(stores); // Fallback to all stores on error
       }
+      setIsSearching(false);
     };
 
     updateSearch();
 
-    return () => {
-      isMounted = false;
-    };
-  }, [stores, searchQuery, filters]);
+    return () => controller.abort();
+  }, [stores, searchIndex, searchQuery, filters, sortBy]);
 
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-  };
+  // Typing replaces the current history entry; filter, sort and store
+  // changes each get their own so Back steps through them
+  const handleSearch = useCallback((query: string) => {
+    updateState({ query }, 'replace');
+  }, [updateState]);
+
+  // StoreSearch reports its filters after every change, including ones that
+  // came from here, so unchanged filters are ignored
+  const handleFilterChange = useCallback((newFilters: StoreFilters) => {
+    updateState(current => current.filters === newFilters ? null : {
+      filters: newFilters,
+      // Nearest-first has nothing to measure from once the location is cleared
+      sortBy: !newFilters.origin && current.sortBy === 'distance' ? 'relevance' : current.sortBy
+    });
+  }, [updateState]);
 
-  const handleFilterChange = (newFilters: StoreFilters) => {
-    setFilters(newFilters);
+  const handleSortChange = (newSortBy: StoreSortMode) => {
+    updateState({ sortBy: newSortBy });
   };
 
   const handleStoreClick = (store: ProcessedBookstore) => {
-    setSelectedStore(store);
+    updateState({ store: store.slug });
   };
 
   const handleCloseDetails = () => {
-    setSelectedStore(null);
+    updateState({ store: null });
   };
 
   return (
@@ -93,6 +111,8 @@ export default function StoreDiscovery({ stores }: StoreDiscoveryProps) {
         onSearch={handleSearch} 
         onFilterChange={handleFilterChange}
         stores={stores}
+        query={searchQuery}
+        filters={filters}
       />
       
       <div className="mt-6">
@@ -109,7 +129,14 @@ export default function StoreDiscovery({ stores }: StoreDiscoveryProps) {
             <span className="sr-only">Loading search results...</span>
           </div>
         ) : (
-          <StoreList stores={filteredStores} onStoreClick={handleStoreClick} />
+          <StoreList
+            stores={filteredStores}
+            onStoreClick={handleStoreClick}
+            sortBy={sortBy}
+            onSortChange={handleSortChange}
+            hasOrigin={!!filters.origin}
+            activeStoreId={selectedStore?.id ?? null}
+          />
         )}
       </div>
       
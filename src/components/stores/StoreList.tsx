@@ -1,36 +1,123 @@
 /** @jsxImportSource react */
-import { useState, useMemo } from 'react';
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type KeyboardEvent } from 'react';
 import type { ProcessedBookstore } from '../../types/bookstore';
+import type { StoreSearchResult } from '../../lib/search';
+import type { StoreSortMode } from '../../lib/sorting';
+import StoreSortSelect from './StoreSortSelect';
 import StoreCard from './StoreCard';
 import ErrorBoundary from '../ui/ErrorBoundary';
+import { useWindowVirtualizer } from '../../hooks/useWindowVirtualizer';
 
 interface StoreListProps {
-  stores: ProcessedBookstore[];
+  stores: StoreSearchResult[];
   onStoreClick?: (store: ProcessedBookstore) => void;
+  // The sort control is shown when onSortChange is given
+  sortBy?: StoreSortMode;
+  onSortChange?: (sortBy: StoreSortMode) => void;
+  hasOrigin?: boolean;
+  // Store whose details are open; when they close, its card is scrolled back
+  // into view and focused
+  activeStoreId?: string | null;
 }
 
-const INITIAL_DISPLAY_COUNT = 12; // Show 12 stores initially (4 rows of 3)
-const LOAD_MORE_COUNT = 9; // Load 9 more stores each time (3 rows of 3)
+// Grid geometry, matching the Tailwind classes on the rows
+const MIN_CARD_WIDTH = 320;
+const CARD_GAP = 24; // gap-6
+// A card is at least 400px tall; rows are measured once rendered
+const ESTIMATED_ROW_HEIGHT = 400 + CARD_GAP;
 
-export default function StoreList({ stores, onStoreClick }: StoreListProps) {
-  const [displayCount, setDisplayCount] = useState(INITIAL_DISPLAY_COUNT);
+export default function StoreList({
+  stores,
+  onStoreClick,
+  sortBy = 'relevance',
+  onSortChange,
+  hasOrigin = false,
+  activeStoreId = null
+}: StoreListProps) {
   const storeCount = stores.length;
+  const containerRef = useRef<HTMLDivElement>(null);
 
-  // Memoize displayed stores to prevent unnecessary recalculations
-  const displayedStores = useMemo(() => {
-    return stores.slice(0, displayCount);
-  }, [stores, displayCount]);
+  // As many columns as the old auto-fill grid fitted, so the layout is unchanged.
+  // The container comes and goes with the results, so it is watched from its ref.
+  const [width, setWidth] = useState(0);
+  const attachContainer = useCallback((element: HTMLDivElement | null) => {
+    containerRef.current = element;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+      containerRef.current = null;
+    };
+  }, []);
+  const columns = Math.max(1, Math.floor((width + CARD_GAP) / (MIN_CARD_WIDTH + CARD_GAP)));
 
-  const hasMoreStores = displayCount < storeCount;
+  // Only the rows near the viewport are mounted
+  const { range, paddingTop, paddingBottom, measureElement, resetMeasurements, scrollToIndex } = useWindowVirtualizer({
+    containerRef,
+    count: Math.ceil(storeCount / columns),
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+    overscan: 1
+  });
 
-  const handleLoadMore = () => {
-    setDisplayCount(prev => Math.min(prev + LOAD_MORE_COUNT, storeCount));
+  // Heights measured for other results or another layout no longer apply
+  useEffect(() => {
+    resetMeasurements();
+  }, [stores, columns, resetMeasurements]);
+
+  // Card to focus once it has been rendered
+  const pendingFocusRef = useRef<number | null>(null);
+
+  const focusStore = (index: number) => {
+    pendingFocusRef.current = index;
+    scrollToIndex(Math.floor(index / columns));
   };
 
-  // Reset display count when stores change (e.g., new search/filter)
-  useMemo(() => {
-    setDisplayCount(INITIAL_DISPLAY_COUNT);
-  }, [stores]);
+  useLayoutEffect(() => {
+    const index = pendingFocusRef.current;
+    if (index === null) return;
+    const card = containerRef.current?.querySelector<HTMLElement>(`[data-store-index="${index}"] button`);
+    if (card) {
+      pendingFocusRef.current = null;
+      card.focus({ preventScroll: true });
+    }
+  });
+
+  // Back from StoreDetails: return to the card it was opened from, which may
+  // have been unmounted while the details covered the list. Only the details
+  // closing moves focus, so this runs on activeStoreId alone.
+  const previousActiveIdRef = useRef(activeStoreId);
+  useEffect(() => {
+    const previousId = previousActiveIdRef.current;
+    previousActiveIdRef.current = activeStoreId;
+    if (activeStoreId || !previousId) return;
+    const index = stores.findIndex(store => store.id === previousId);
+    if (index >= 0) focusStore(index);
+  }, [activeStoreId]);
+
+  // Arrow keys move between cards the way they are laid out; Home and End
+  // jump to the first and last result
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const item = (event.target as HTMLElement).closest<HTMLElement>('[data-store-index]');
+    if (!item || event.altKey || event.ctrlKey || event.metaKey) return;
+    const index = Number(item.dataset.storeIndex);
+
+    const moves: Record<string, number> = {
+      ArrowRight: index + 1,
+      ArrowLeft: index - 1,
+      ArrowDown: index + columns,
+      ArrowUp: index - columns,
+      Home: 0,
+      End: storeCount - 1
+    };
+    const next = moves[event.key];
+    if (next === undefined) return;
+
+    event.preventDefault();
+    if (next >= 0 && next < storeCount && next !== index) {
+      focusStore(next);
+    }
+  };
 
   if (storeCount === 0) {
     return (
@@ -70,64 +157,66 @@ export default function StoreList({ stores, onStoreClick }: StoreListProps) {
       </div>
       
       {/* Visual results summary */}
-      <div className="mb-4">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
         <p className="text-sm text-gray-600">
           {storeCount === 1 
             ? "Showing 1 bookstore" 
-            : `Showing ${displayedStores.length} of ${storeCount} bookstores`
+            : `Showing ${storeCount} bookstores`
           }
         </p>
+        {onSortChange && (
+          <StoreSortSelect
+            value={sortBy}
+            onChange={onSortChange}
+            hasOrigin={hasOrigin}
+            hasAddedDates={stores.some(store => store.addedAt)}
+          />
+        )}
       </div>
 
-      {/* Optimized Grid with consistent sizing and layout shift prevention */}
-      <div 
-        className="grid gap-6 auto-rows-fr"
-        style={{
-          // Responsive grid with consistent column widths
-          gridTemplateColumns: 'repeat(auto-fill, minmax(min(100%, 320px), 1fr))',
-          // Ensure all rows have the same height
-          gridAutoRows: 'minmax(400px, auto)'
-        }}
+      {/* Rows outside the window are replaced by padding of their height */}
+      <div
+        ref={attachContainer}
+        style={{ paddingTop, paddingBottom }}
+        onKeyDown={handleKeyDown}
         role="list"
         aria-label="Bookstore results"
       >
-        {displayedStores.map((store) => (
-          <div 
-            key={store.place_id} 
-            role="listitem"
-            className="min-h-[400px] flex flex-col" // Ensure consistent minimum height
-          >
-            <ErrorBoundary>
-              <StoreCard 
-                store={store} 
-                onClick={() => onStoreClick?.(store)}
-              />
-            </ErrorBoundary>
-          </div>
-        ))}
-      </div>
-
-      {/* Load More Button */}
-      {hasMoreStores && (
-        <div className="mt-8 text-center">
-          <button
-            onClick={handleLoadMore}
-            className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200"
-            aria-label={`Load ${Math.min(LOAD_MORE_COUNT, storeCount - displayCount)} more bookstores`}
-          >
-            <svg 
-              className="w-5 h-5 mr-2" 
-              fill="none" 
-              stroke="currentColor" 
-              viewBox="0 0 24 24"
-              aria-hidden="true"
+        {Array.from({ length: range.end - range.start }, (_, offset) => {
+          const row = range.start + offset;
+          return (
+            <div
+              key={row}
+              ref={measureElement}
+              data-index={row}
+              className="grid gap-6 pb-6"
+              style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+              role="presentation"
             >
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-            </svg>
-            Load More ({storeCount - displayCount} remaining)
-          </button>
-        </div>
-      )}
+              {stores.slice(row * columns, (row + 1) * columns).map((store, column) => {
+                const index = row * columns + column;
+                return (
+                  <div 
+                    key={store.place_id} 
+                    role="listitem"
+                    aria-posinset={index + 1}
+                    aria-setsize={storeCount}
+                    data-store-index={index}
+                    className="min-h-[400px] flex flex-col" // Ensure consistent minimum height
+                  >
+                    <ErrorBoundary>
+                      <StoreCard 
+                        store={store} 
+                        onClick={() => onStoreClick?.(store)}
+                      />
+                    </ErrorBoundary>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
     </section>
   );
 } 
\ No newline at end of file
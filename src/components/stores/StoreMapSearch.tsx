@@ -2,20 +2,27 @@
 import type { ChangeEvent, KeyboardEvent } from 'react';
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import { getSearchSuggestions } from '../../lib/search';
+import { getSearchSuggestions, loadSearchIndex } from '../../lib/search';
+import type { SearchIndexSource } from '../../lib/searchIndex';
 import type { ProcessedBookstore } from '../../types/bookstore';
 
 interface StoreMapSearchProps {
   onSearch: (query: string) => void;
   stores: ProcessedBookstore[];
+  // Query set from outside, e.g. restored from the URL
+  query?: string;
+  // Prebuilt search index, fetched when the search box is first focused
+  searchIndex?: SearchIndexSource;
 }
 
-export default function StoreMapSearch({ onSearch, stores }: StoreMapSearchProps) {
+export default function StoreMapSearch({ onSearch, stores, query, searchIndex }: StoreMapSearchProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0, width: 0 });
+  // Suggestions use a plain substring match until the index has loaded
+  const [isIndexLoaded, setIsIndexLoaded] = useState(false);
   const suggestionsRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -31,6 +38,13 @@ export default function StoreMapSearch({ onSearch, stores }: StoreMapSearchProps
     }, 300); // 300ms delay
   }, [onSearch]);
 
+  // Show the query when it is set from outside rather than typed
+  useEffect(() => {
+    if (query !== undefined) {
+      setSearchQuery(query);
+    }
+  }, [query]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -47,7 +61,11 @@ export default function StoreMapSearch({ onSearch, stores }: StoreMapSearchProps
     } else {
       setSuggestions([]);
     }
-  }, [searchQuery, stores]);
+  }, [searchQuery, stores, isIndexLoaded]);
+
+  const handleFocus = useCallback(() => {
+    loadSearchIndex(stores, searchIndex).then(() => setIsIndexLoaded(true));
+  }, [stores, searchIndex]);
 
   // Update dropdown position when showing suggestions
   useEffect(() => {
@@ -199,6 +217,7 @@ export default function StoreMapSearch({ onSearch, stores }: StoreMapSearchProps
             value={searchQuery}
             onChange={handleSearchChange}
             onKeyDown={handleKeyDown}
+            onFocus={handleFocus}
             placeholder="Search bookstores..."
             className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none bg-white"
             aria-autocomplete="list"
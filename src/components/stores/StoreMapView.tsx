@@ -1,88 +1,143 @@
 /** @jsxImportSource react */
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useCallback, useRef, type ReactNode } from 'react';
 import type { ProcessedBookstore } from '../../types/bookstore';
-import StoreMap from '../map/StoreMap';
+import StoreMapGL from '../map/StoreMapGL';
 import StoreMapSearch from './StoreMapSearch';
-import { searchStoresText, initializeSearch } from '../../lib/search';
+import LocationFilter from './LocationFilter';
+import StoreSortSelect from './StoreSortSelect';
+import { PROVINCES } from './StoreSearch';
+import { formatDistance, type SearchOrigin, type StoreSearchResult } from '../../lib/search';
+import { createStoreSearchClient, type StoreSearchClient } from '../../lib/searchClient';
+import type { SearchIndexSource } from '../../lib/searchIndex';
+import type { StoreSortMode } from '../../lib/sorting';
+import { getBounds, getStoreCoordinates, isInBounds, type BoundingBox, type GeoPoint } from '../../lib/geo';
+import { normalizeProvince } from '../../utils/geographic';
+import { useSearchUrlState } from '../../hooks/useSearchUrlState';
 
 interface StoreMapViewProps {
   stores: ProcessedBookstore[];
+  // Prebuilt search index for these stores, from getSearchIndexAsset
+  searchIndex?: SearchIndexSource;
+  // Shown in place of the map when its tiles can't be loaded; from Astro,
+  // pass StaticMapFallback in the "mapFallback" slot (client:only islands
+  // get slot names as written, not camelCased)
+  mapFallback?: ReactNode;
 }
 
-export default function StoreMapView({ stores }: StoreMapViewProps) {
+export default function StoreMapView({ stores, searchIndex, mapFallback }: StoreMapViewProps) {
   console.log('StoreMapView received stores:', stores.length);
-  const [filteredStores, setFilteredStores] = useState<ProcessedBookstore[]>(stores);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [filteredStores, setFilteredStores] = useState<StoreSearchResult[]>(stores);
+  // Query, filters, sort and open store live in the URL so the view can be shared
+  const { state: urlState, updateState, isRestored } = useSearchUrlState();
+  const { query: searchQuery, filters, sortBy } = urlState;
   const [isSearchCollapsed, setIsSearchCollapsed] = useState(false);
   const [isFiltering, setIsFiltering] = useState(false);
+  // "Search this area": the list keeps to what the map shows
+  const [isAreaSearch, setIsAreaSearch] = useState(false);
+  const [mapBounds, setMapBounds] = useState<BoundingBox | null>(null);
+  // Store hovered in the list or on the map, highlighted in both
+  const [hoveredStoreId, setHoveredStoreId] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
 
-  // Initialize search and apply initial filters
+  // Search runs in a worker so panning stays smooth while results update
+  const searchClientRef = useRef<StoreSearchClient | null>(null);
   useEffect(() => {
-    if (stores.length > 0) {
-      console.log('=== STOREMAPVIEW INITIALIZATION ===');
-      console.log('Raw stores received:', stores.length);
-      console.log('Sample store data:', {
-        name: stores[0]?.name,
-        lat: stores[0]?.lat,
-        lng: stores[0]?.lng,
-        coordinates: stores[0]?.coordinates
-      });
-      
-      console.log('Initializing search with', stores.length, 'stores');
-      initializeSearch(stores);
-      
-      // Start with all stores
-      setFilteredStores(stores);
-    }
-  }, [stores]);
-
-  // Filter stores based on search query only
-  const updateFilteredStores = async (query: string) => {
-    console.log('=== UPDATEFILTEREDSTORES CALLED ===');
-    console.log('Query:', query);
-    console.log('Input stores count:', stores.length);
-    
-    // Prevent concurrent filter operations
-    if (isFiltering) {
-      console.log('Already filtering, skipping...');
-      return;
-    }
-    
-    setIsFiltering(true);
-    try {
-      // Add a small delay to prevent rapid successive calls
-      await new Promise(resolve => setTimeout(resolve, 50));
-      
-      const results = await searchStoresText(stores, query);
-      console.log('Search results count:', results.length);
-      console.log('Sample result:', results[0] ? {
-        name: results[0].name,
-        lat: results[0].lat,
-        lng: results[0].lng,
-        coordinates: results[0].coordinates,
-        place_id: results[0].place_id
-      } : 'No results');
-      
-      setFilteredStores(results);
-    } catch (error) {
-      console.error('Error filtering stores:', error);
-      // Fallback to original stores with valid coordinates
-      const validStores = stores.filter(store => {
-        const lat = parseFloat(store.lat);
-        const lng = parseFloat(store.lng);
-        return !isNaN(lat) && !isNaN(lng);
-      });
-      setFilteredStores(validStores);
-    } finally {
+    const client = createStoreSearchClient(stores, searchIndex);
+    searchClientRef.current = client;
+    return () => {
+      client.dispose();
+      searchClientRef.current = null;
+    };
+  }, [stores, searchIndex]);
+
+  // Re-run the search whenever the query, location or radius changes,
+  // cancelling the one still running for the previous values
+  useEffect(() => {
+    const client = searchClientRef.current;
+    if (!client) return;
+    const controller = new AbortController();
+
+    const updateFilteredStores = async () => {
+      setIsFiltering(true);
+      try {
+        const results = await client.search({ query: searchQuery, filters, sortBy }, controller.signal);
+        console.log('Search results count:', results.length);
+        setFilteredStores(results);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error filtering stores:', error);
+        // Fallback to original stores with valid coordinates
+        setFilteredStores(stores.filter(store => {
+          const lat = parseFloat(store.lat);
+          const lng = parseFloat(store.lng);
+          return !isNaN(lat) && !isNaN(lng);
+        }));
+      }
       setIsFiltering(false);
-    }
-  };
+    };
+
+    updateFilteredStores();
+
+    return () => controller.abort();
+  }, [stores, searchIndex, searchQuery, filters, sortBy]);
 
-  const handleSearch = (query: string) => {
+  const handleSearch = useCallback((query: string) => {
     console.log('handleSearch called with query:', query);
-    setSearchQuery(query);
-    updateFilteredStores(query);
-  };
+    updateState({ query }, 'replace');
+  }, [updateState]);
+
+  const handleOriginChange = useCallback((origin: SearchOrigin | null) => {
+    updateState(current => ({
+      filters: { ...current.filters, origin },
+      sortBy: !origin && current.sortBy === 'distance' ? 'relevance' : current.sortBy
+    }));
+  }, [updateState]);
+
+  const handleMaxDistanceChange = useCallback((maxDistance: number | null) => {
+    updateState(current => ({ filters: { ...current.filters, maxDistance } }));
+  }, [updateState]);
+
+  const handleSortChange = useCallback((newSortBy: StoreSortMode) => {
+    updateState({ sortBy: newSortBy });
+  }, [updateState]);
+
+  const handleSelectStore = useCallback((store: StoreSearchResult | null) => {
+    updateState({ store: store ? store.slug : null });
+  }, [updateState]);
+
+  const handleProvinceChange = useCallback((province: string) => {
+    updateState(current => ({ filters: { ...current.filters, province } }));
+  }, [updateState]);
+
+  // Hovering a marker brings its list entry into view
+  const handleMapHover = useCallback((store: StoreSearchResult | null) => {
+    setHoveredStoreId(store ? store.id : null);
+    if (store) {
+      listRef.current
+        ?.querySelector(`[data-store-id="${CSS.escape(store.id)}"]`)
+        ?.scrollIntoView({ block: 'nearest' });
+    }
+  }, []);
+
+  // The map frames every store in the chosen province, not just the matches,
+  // so a narrow search still shows where it sits
+  const provinceBounds = useMemo(() => {
+    if (!filters.province) return null;
+    const province = normalizeProvince(filters.province);
+    const points = stores
+      .filter(store => normalizeProvince(store.province) === province)
+      .map(store => getStoreCoordinates(store))
+      .filter((point): point is GeoPoint => point !== null);
+    return getBounds(points);
+  }, [stores, filters.province]);
+
+  const listedStores = useMemo(() => {
+    if (!isAreaSearch || !mapBounds) return filteredStores;
+    return filteredStores.filter(store => {
+      const point = getStoreCoordinates(store);
+      return point !== null && isInBounds(point, mapBounds);
+    });
+  }, [filteredStores, isAreaSearch, mapBounds]);
 
   const toggleSearchCollapse = () => {
     setIsSearchCollapsed(!isSearchCollapsed);
@@ -111,7 +166,7 @@ export default function StoreMapView({ stores }: StoreMapViewProps) {
             {/* View Toggle - Hidden on mobile when search is collapsed */}
             <div className={`hidden sm:flex gap-2 ${isSearchCollapsed ? 'md:flex' : ''}`}>
               <a 
-                href="/" 
+                href="#all-stores" 
                 className="inline-flex items-center px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
               >
                 <svg className="w-4 h-4 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -146,23 +201,128 @@ export default function StoreMapView({ stores }: StoreMapViewProps) {
 
           {/* Search Bar - Collapsible - Remove overflow-hidden to allow dropdown to show */}
           <div className={`transition-all duration-300 ${isSearchCollapsed ? 'max-h-0 pb-0' : 'max-h-96 pb-4'}`}>
-            <div className="flex justify-center">
+            <div className="flex flex-col items-center gap-4 md:flex-row md:items-start md:justify-center">
               <StoreMapSearch
                 onSearch={handleSearch}
                 stores={stores}
+                query={searchQuery}
+                searchIndex={searchIndex}
               />
+              <div className="w-full max-w-xs">
+                <LocationFilter
+                  stores={stores}
+                  origin={filters.origin}
+                  maxDistance={filters.maxDistance}
+                  onOriginChange={handleOriginChange}
+                  onMaxDistanceChange={handleMaxDistanceChange}
+                  idPrefix="map-"
+                />
+              </div>
+              <div className="w-full max-w-[12rem]">
+                <label htmlFor="map-province" className="block text-sm font-medium text-gray-700">
+                  Province
+                </label>
+                <select
+                  id="map-province"
+                  value={filters.province}
+                  onChange={e => handleProvinceChange(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 focus:ring-2"
+                >
+                  <option value="">All Provinces</option>
+                  {PROVINCES.map(province => (
+                    <option key={province} value={province}>
+                      {province}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
           </div>
         </div>
       </div>
 
+      <div className="flex-1 flex min-h-0">
+      {/* Result list, alongside the map on larger screens */}
+      <aside className="hidden md:flex md:flex-col w-80 bg-white border-r border-gray-200" aria-label="Stores on the map">
+        <div className="p-3 border-b border-gray-200 space-y-2">
+          <StoreSortSelect
+            value={sortBy}
+            onChange={handleSortChange}
+            hasOrigin={!!filters.origin}
+            hasAddedDates={stores.some(store => store.addedAt)}
+            id="map-sortBy"
+          />
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isAreaSearch}
+                onChange={e => setIsAreaSearch(e.target.checked)}
+                className="rounded text-blue-600 focus:ring-2 focus:ring-blue-500"
+              />
+              Search this area
+            </label>
+            {isAreaSearch && (
+              <span className="text-xs text-gray-500" aria-live="polite">
+                {listedStores.length} in view
+              </span>
+            )}
+          </div>
+        </div>
+        <ul ref={listRef} className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {listedStores.length === 0 && (
+            <li className="px-3 py-4 text-sm text-gray-500">
+              {isAreaSearch ? 'No matching stores in this part of the map. Zoom out or pan to see more.' : 'No matching stores.'}
+            </li>
+          )}
+          {listedStores.map(store => (
+            <li
+              key={store.id}
+              data-store-id={store.id}
+              onMouseEnter={() => setHoveredStoreId(store.id)}
+              onMouseLeave={() => setHoveredStoreId(null)}
+              onFocus={() => setHoveredStoreId(store.id)}
+              onBlur={() => setHoveredStoreId(null)}
+            >
+              <a
+                href={`/stores/${store.slug}/`}
+                className={`block px-3 py-2 hover:bg-gray-50 focus:bg-gray-50 focus:outline-none ${
+                  store.id === hoveredStoreId ? 'bg-amber-50' : ''
+                }`}
+              >
+                <div className="font-medium text-gray-900 text-sm">{store.name}</div>
+                <div className="text-xs text-gray-600">
+                  {store.city}, {store.province}
+                  {store.ratingInfo?.rating ? ` · ★ ${store.ratingInfo.rating.toFixed(1)}` : ''}
+                  {store.distanceKm !== undefined && (
+                    <span className="text-blue-600"> · {formatDistance(store.distanceKm)}</span>
+                  )}
+                </div>
+              </a>
+            </li>
+          ))}
+        </ul>
+      </aside>
+
       {/* Map Container */}
       <div className="flex-1 relative">
-        <StoreMap
-          stores={filteredStores}
-          height="100%"
-          className="w-full h-full"
-        />
+        {/* Mounted once the URL is read, so a shared viewport and origin arrive together */}
+        {isRestored && (
+          <StoreMapGL
+            stores={filteredStores}
+            origin={filters.origin}
+            radiusKm={filters.origin ? filters.maxDistance : null}
+            selectedStoreSlug={urlState.store}
+            onSelectStore={handleSelectStore}
+            highlightedStoreId={hoveredStoreId}
+            onHoverStore={handleMapHover}
+            onBoundsChange={setMapBounds}
+            fitBounds={provinceBounds}
+            fallback={mapFallback}
+            height="100%"
+            className="w-full h-full"
+          />
+        )}
 
         {/* Quick Stats Overlay */}
         <div className="absolute top-4 left-4 z-10 bg-white px-4 py-2 rounded-lg shadow-md">
@@ -194,10 +354,7 @@ export default function StoreMapView({ stores }: StoreMapViewProps) {
         {searchQuery && (
           <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-10">
             <button
-              onClick={() => {
-                setSearchQuery('');
-                updateFilteredStores('');
-              }}
+              onClick={() => handleSearch('')}
               className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg shadow-md transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
             >
               <div className="flex items-center space-x-2">
@@ -210,6 +367,7 @@ export default function StoreMapView({ stores }: StoreMapViewProps) {
           </div>
         )}
       </div>
+      </div>
     </div>
   );
 } 
\ No newline at end of file
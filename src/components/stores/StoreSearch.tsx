@@ -1,24 +1,64 @@
 /** @jsxImportSource react */
 import type { ChangeEvent, KeyboardEvent } from 'react';
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { getSearchSuggestions } from '../../lib/search';
-import type { ProcessedBookstore } from '../../types/bookstore';
+import {
+  getQueryCompletions,
+  getSearchSuggestions,
+  parseSearchQuery,
+  replaceQueryText,
+  type QueryError,
+  type SearchOrigin
+} from '../../lib/search';
+import { CATEGORY_LIST } from '../../lib/categories';
+import { WEEKDAYS } from '../../lib/processors/hours';
+import { DAY_LABELS, formatClockTime, formatMinutes, OPEN_LATE_OPTIONS, type HoursFilter } from '../../utils/storeHours';
+import type { DayOfWeek, ProcessedBookstore, StoreCategory } from '../../types/bookstore';
+import LocationFilter from './LocationFilter';
 
 interface StoreSearchProps {
   onSearch: (query: string) => void;
   onFilterChange: (filters: StoreFilters) => void;
   stores: ProcessedBookstore[];
+  // Query and filters set from outside, e.g. restored from the URL
+  query?: string;
+  filters?: StoreFilters;
 }
 
-export interface StoreFilters {
+export interface StoreFilters extends HoursFilter {
   hasWebsite: boolean;
   minRating: number;
   province: string;
+  category: StoreCategory | '';
   maxDistance: number | null;
+  // Where maxDistance is measured from; without one the radius is not applied
+  origin: SearchOrigin | null;
   openWeekends: boolean;
 }
 
-const PROVINCES = [
+export const DEFAULT_STORE_FILTERS: StoreFilters = {
+  hasWebsite: false,
+  minRating: 0,
+  province: '',
+  category: '',
+  maxDistance: null,
+  origin: null,
+  openWeekends: false,
+  openNow: false,
+  openAfter: null,
+  openOnDay: '',
+  openAt: null
+};
+
+interface SearchSuggestion {
+  label: string;
+  detail?: string;
+  // Query once the suggestion is picked
+  query: string;
+  // Field names lead on to a value, so the list stays open for it
+  keepOpen: boolean;
+}
+
+export const PROVINCES = [
   'Alberta',
   'British Columbia',
   'Manitoba',
@@ -36,18 +76,23 @@ const PROVINCES = [
 
 
 
-export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreSearchProps) {
+export default function StoreSearch({
+  onSearch,
+  onFilterChange,
+  stores,
+  query,
+  filters: externalFilters
+}: StoreSearchProps) {
   const [searchQuery, setSearchQuery] = useState('');
-  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [queryErrors, setQueryErrors] = useState<QueryError[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
-  const [filters, setFilters] = useState<StoreFilters>({
-    hasWebsite: false,
-    minRating: 0,
-    province: '',
-    maxDistance: null,
-    openWeekends: false
-  });
+  const [filters, setFilters] = useState<StoreFilters>(DEFAULT_STORE_FILTERS);
+  // "HH:MM" from the time input; becomes openAt once a day is chosen too
+  const [openAtTime, setOpenAtTime] = useState('');
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
   const suggestionsRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -63,6 +108,21 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
     }, 300); // 300ms delay
   }, [onSearch]);
 
+  // Show the query and filters when they are set from outside rather than
+  // through these controls. Filters reported by this component come back as
+  // the same object, so only genuinely new ones are applied.
+  useEffect(() => {
+    if (query !== undefined) {
+      setSearchQuery(query);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    if (!externalFilters || externalFilters === filtersRef.current) return;
+    setFilters(externalFilters);
+    setOpenAtTime(externalFilters.openAt ? formatClockTime(externalFilters.openAt.minutes) : '');
+  }, [externalFilters]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -72,14 +132,37 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
     };
   }, []);
 
+  // Completions for a qualifier being typed come first; otherwise store names
+  // matching the free text, keeping the qualifiers already typed
   useEffect(() => {
-    if (searchQuery) {
-      const newSuggestions = getSearchSuggestions(stores, searchQuery);
-      setSuggestions(newSuggestions);
-    } else {
+    if (!searchQuery) {
       setSuggestions([]);
+      setQueryErrors([]);
+      return;
     }
-  }, [searchQuery, stores]);
+
+    // within: can measure from a location picked outside the query
+    const parsed = parseSearchQuery(searchQuery, stores, filters.origin);
+    const completions = getQueryCompletions(stores, searchQuery);
+    // A qualifier still being completed ("province:n") isn't wrong yet
+    setQueryErrors(completions.length > 0
+      ? parsed.errors.filter(error => !searchQuery.endsWith(error.token))
+      : parsed.errors);
+
+    if (completions.length > 0) {
+      setSuggestions(completions.map(completion => ({
+        ...completion,
+        keepOpen: completion.label.endsWith(':')
+      })));
+      return;
+    }
+
+    setSuggestions(getSearchSuggestions(stores, parsed.text).map(name => ({
+      label: name,
+      query: replaceQueryText(searchQuery, name, stores),
+      keepOpen: false
+    })));
+  }, [searchQuery, stores, filters.origin]);
 
   // Optimize filter change callback with useCallback
   const optimizedFilterChange = useCallback((newFilters: StoreFilters) => {
@@ -100,16 +183,16 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
     debouncedSearch(value);
   };
 
-  const handleSuggestionClick = (suggestion: string) => {
-    setSearchQuery(suggestion);
-    setShowSuggestions(false);
+  const handleSuggestionClick = (suggestion: SearchSuggestion) => {
+    setSearchQuery(suggestion.query);
+    setShowSuggestions(suggestion.keepOpen);
     setActiveSuggestionIndex(-1);
     
     // Clear any pending debounced search and trigger immediate search
     if (debounceTimeoutRef.current) {
       clearTimeout(debounceTimeoutRef.current);
     }
-    onSearch(suggestion);
+    onSearch(suggestion.query);
     searchInputRef.current?.focus();
   };
 
@@ -153,6 +236,18 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
     setFilters(prev => ({ ...prev, [key]: value }));
   }, []);
 
+  // A chosen time only applies together with a day
+  const handleOpenDayChange = useCallback((day: DayOfWeek | '', time: string) => {
+    setOpenAtTime(time);
+    const [hours, minutes] = time.split(':').map(Number);
+    setFilters(prev => ({
+      ...prev,
+      openOnDay: day,
+      openAt: day && time ? { day, minutes: hours * 60 + minutes } : null
+    }));
+  }, []);
+
+
   // Close suggestions when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -168,6 +263,7 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
 
   const searchId = 'bookstore-search';
   const suggestionsId = 'search-suggestions';
+  const queryErrorsId = 'search-query-errors';
 
   return (
     <div className="space-y-4">
@@ -191,7 +287,7 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
           value={searchQuery}
           onChange={handleSearchChange}
           onKeyDown={handleKeyDown}
-          placeholder="Search bookstores..."
+          placeholder="Search bookstores, or try city:halifax rating:>4 open:sunday"
           className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
           aria-autocomplete="list"
           aria-expanded={showSuggestions && suggestions.length > 0}
@@ -199,8 +295,20 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
           aria-activedescendant={
             activeSuggestionIndex >= 0 ? `suggestion-${activeSuggestionIndex}` : undefined
           }
+          aria-describedby={queryErrors.length > 0 ? queryErrorsId : undefined}
           role="combobox"
         />
+
+        {/* Malformed qualifiers are left out of the search; say why */}
+        {queryErrors.length > 0 && (
+          <ul id={queryErrorsId} role="status" className="mt-1 space-y-0.5 text-xs text-red-600">
+            {queryErrors.map(error => (
+              <li key={error.token}>
+                <code className="font-mono">{error.token}</code> — {error.message}
+              </li>
+            ))}
+          </ul>
+        )}
         
         {/* Search Suggestions */}
         {showSuggestions && suggestions.length > 0 && (
@@ -223,7 +331,10 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
                 aria-selected={index === activeSuggestionIndex}
                 tabIndex={-1}
               >
-                {suggestion}
+                {suggestion.label}
+                {suggestion.detail && (
+                  <span className="ml-2 text-sm text-gray-500">{suggestion.detail}</span>
+                )}
               </div>
             ))}
           </div>
@@ -231,7 +342,7 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
       </div>
 
       {/* Filters Section */}
-      <fieldset className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 bg-white p-4 rounded-lg shadow">
+      <fieldset className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 bg-white p-4 rounded-lg shadow">
         <legend className="sr-only">Filter bookstores</legend>
         
         {/* Basic Filters */}
@@ -264,6 +375,74 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
           </div>
         </div>
 
+        {/* Opening Hours Filters */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Opening Hours</h3>
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="openNow"
+              checked={filters.openNow}
+              onChange={e => handleFilterChange('openNow', e.target.checked)}
+              className="rounded text-blue-600 focus:ring-2 focus:ring-blue-500"
+            />
+            <label htmlFor="openNow" className="text-sm text-gray-700">Open Now</label>
+          </div>
+
+          <div>
+            <label htmlFor="openAfter" className="block text-sm font-medium text-gray-700">
+              Open Late
+            </label>
+            <select
+              id="openAfter"
+              value={filters.openAfter ?? ''}
+              onChange={e => handleFilterChange('openAfter', e.target.value ? Number(e.target.value) : null)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 focus:ring-2"
+            >
+              <option value="">Any Time</option>
+              {OPEN_LATE_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  After {formatMinutes(minutes)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="openOnDay" className="block text-sm font-medium text-gray-700">
+                Open On
+              </label>
+              <select
+                id="openOnDay"
+                value={filters.openOnDay}
+                onChange={e => handleOpenDayChange(e.target.value as DayOfWeek | '', openAtTime)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 focus:ring-2"
+              >
+                <option value="">Any Day</option>
+                {WEEKDAYS.map(day => (
+                  <option key={day} value={day}>
+                    {DAY_LABELS[day]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="openAtTime" className="block text-sm font-medium text-gray-700">
+                At
+              </label>
+              <input
+                type="time"
+                id="openAtTime"
+                value={openAtTime}
+                onChange={e => handleOpenDayChange(filters.openOnDay, e.target.value)}
+                disabled={!filters.openOnDay}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 focus:ring-2 disabled:bg-gray-100 disabled:text-gray-400"
+              />
+            </div>
+          </div>
+        </div>
+
         {/* Rating and Price Filters */}
         <div className="space-y-4">
           <h3 className="text-sm font-medium text-gray-700 mb-2">Quality & Price</h3>
@@ -284,7 +463,24 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
             </select>
           </div>
 
-
+          <div>
+            <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+              Store Type
+            </label>
+            <select
+              id="category"
+              value={filters.category}
+              onChange={e => handleFilterChange('category', e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 focus:ring-2"
+            >
+              <option value="">All Store Types</option>
+              {CATEGORY_LIST.map(category => (
+                <option key={category.id} value={category.id}>
+                  {category.pluralLabel}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* Location Filters */}
@@ -309,23 +505,13 @@ export default function StoreSearch({ onSearch, onFilterChange, stores }: StoreS
             </select>
           </div>
 
-          <div>
-            <label htmlFor="maxDistance" className="block text-sm font-medium text-gray-700">
-              Maximum Distance (km)
-            </label>
-            <select
-              id="maxDistance"
-              value={filters.maxDistance || ''}
-              onChange={e => handleFilterChange('maxDistance', e.target.value ? Number(e.target.value) : null)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 focus:ring-2"
-            >
-              <option value="">Any Distance</option>
-              <option value="5">Within 5 km</option>
-              <option value="10">Within 10 km</option>
-              <option value="25">Within 25 km</option>
-              <option value="50">Within 50 km</option>
-            </select>
-          </div>
+          <LocationFilter
+            stores={stores}
+            origin={filters.origin}
+            maxDistance={filters.maxDistance}
+            onOriginChange={origin => handleFilterChange('origin', origin)}
+            onMaxDistanceChange={maxDistance => handleFilterChange('maxDistance', maxDistance)}
+          />
         </div>
       </fieldset>
     </div>
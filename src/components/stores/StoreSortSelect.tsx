@@ -0,0 +1,38 @@
+/** @jsxImportSource react */
+import { STORE_SORT_OPTIONS, type StoreSortMode } from '../../lib/sorting';
+
+interface StoreSortSelectProps {
+  value: StoreSortMode;
+  onChange: (sortBy: StoreSortMode) => void;
+  // Distance sorting is offered once a location is set
+  hasOrigin: boolean;
+  // Recently added is offered once some store has a first-seen date
+  hasAddedDates: boolean;
+  id?: string;
+}
+
+export default function StoreSortSelect({ value, onChange, hasOrigin, hasAddedDates, id = 'sortBy' }: StoreSortSelectProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor={id} className="text-sm text-gray-600 whitespace-nowrap">
+        Sort by
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={e => onChange(e.target.value as StoreSortMode)}
+        className="rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 focus:ring-2"
+      >
+        {STORE_SORT_OPTIONS.map(option => (
+          <option
+            key={option.id}
+            value={option.id}
+            disabled={(option.requiresOrigin && !hasOrigin) || (option.requiresAddedDates && !hasAddedDates)}
+          >
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
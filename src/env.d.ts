@@ -1 +1,6 @@
-/// <reference path="../.astro/types.d.ts" />
\ No newline at end of file
+/// <reference path="../.astro/types.d.ts" />
+
+interface ImportMetaEnv {
+  // Basemap for the interactive map: "remote" (default) or "local" PMTiles
+  readonly PUBLIC_MAP_TILES?: 'remote' | 'local';
+}
@@ -4,19 +4,27 @@ interface UseLazyLoadOptions {
   rootMargin?: string;
   threshold?: number;
   triggerOnce?: boolean;
+  // Identifies the image across mounts, e.g. a card in a virtualized list
+  // that scrolls out and back; one already loaded shows straight away
+  cacheKey?: string;
 }
 
-export function useLazyLoad<T extends HTMLElement = HTMLElement>(options: UseLazyLoadOptions = {}) {
-  const [isVisible, setIsVisible] = useState(false);
-  const [isLoaded, setIsLoaded] = useState(false);
-  const elementRef = useRef<T>(null);
+// Images loaded so far on this page, by cacheKey
+const loadedImages = new Set<string>();
 
+export function useLazyLoad<T extends HTMLElement = HTMLElement>(options: UseLazyLoadOptions = {}) {
   const {
     rootMargin = '200px 0px', // Load images 200px before they enter viewport
     threshold = 0.1,
-    triggerOnce = true
+    triggerOnce = true,
+    cacheKey
   } = options;
 
+  const wasLoaded = cacheKey !== undefined && loadedImages.has(cacheKey);
+  const [isVisible, setIsVisible] = useState(wasLoaded);
+  const [isLoaded, setIsLoaded] = useState(wasLoaded);
+  const elementRef = useRef<T>(null);
+
   useEffect(() => {
     const observer = new IntersectionObserver(
       ([entry]) => {
@@ -47,6 +55,7 @@ export function useLazyLoad<T extends HTMLElement = HTMLElement>(options: UseLaz
 
   const handleImageLoad = () => {
     setIsLoaded(true);
+    if (cacheKey !== undefined) loadedImages.add(cacheKey);
   };
 
   const handleImageError = () => {
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_SEARCH_URL_STATE,
+  formatSearchParams,
+  parseSearchParams,
+  updateUrl,
+  type SearchUrlState
+} from '../lib/urlState';
+
+/**
+ * Search state mirrored in the query string. The URL is read after mount (so
+ * the server-rendered markup still matches on hydration) and again on
+ * back/forward; until then updates only touch React state, so children
+ * reporting their defaults on mount can't wipe a shared link.
+ */
+export function useSearchUrlState() {
+  const [state, setState] = useState<SearchUrlState>(DEFAULT_SEARCH_URL_STATE);
+  const [isRestored, setIsRestored] = useState(false);
+  const stateRef = useRef(state);
+  const isRestoredRef = useRef(false);
+
+  useEffect(() => {
+    const restore = () => {
+      const restored = parseSearchParams(window.location.search);
+      stateRef.current = restored;
+      isRestoredRef.current = true;
+      setState(restored);
+      setIsRestored(true);
+      // Tidy hand-edited links so later comparisons see the canonical form
+      updateUrl({ search: formatSearchParams(restored, window.location.search) }, 'replace');
+    };
+
+    restore();
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
+  // Takes the changes, or a function of the current state returning them
+  // (null for none), which keeps callbacks stable for children's effects
+  const updateState = useCallback((
+    changes: Partial<SearchUrlState> | ((current: SearchUrlState) => Partial<SearchUrlState> | null),
+    mode: 'push' | 'replace' = 'push'
+  ) => {
+    const resolved = typeof changes === 'function' ? changes(stateRef.current) : changes;
+    if (!resolved) return;
+    const next = { ...stateRef.current, ...resolved };
+    stateRef.current = next;
+    setState(next);
+    if (isRestoredRef.current) {
+      updateUrl({ search: formatSearchParams(next, window.location.search) }, mode);
+    }
+  }, []);
+
+  return { state, updateState, isRestored };
+}
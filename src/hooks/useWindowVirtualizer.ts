@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react';
+
+interface UseWindowVirtualizerOptions {
+  // Element wrapping the items, which receives the padding
+  containerRef: RefObject<HTMLElement | null>;
+  count: number;
+  // Height assumed for items not yet measured, in pixels
+  estimateSize: number;
+  // Items kept mounted past each edge of the viewport
+  overscan?: number;
+}
+
+export interface VirtualRange {
+  // First and one-past-last item to render
+  start: number;
+  end: number;
+}
+
+// Last index whose offset is at or before the position
+function findIndexAt(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(0, low);
+}
+
+/**
+ * Windowed rendering for a list scrolled with the page. Only the items near
+ * the viewport are rendered; the rest are stood in for by padding. Rendered
+ * items are measured as they mount (attach measureElement along with a
+ * data-index attribute), so items of different heights keep their place.
+ */
+export function useWindowVirtualizer({
+  containerRef,
+  count,
+  estimateSize,
+  overscan = 2
+}: UseWindowVirtualizerOptions) {
+  const sizesRef = useRef(new Map<number, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  // Bumped whenever a measurement changes, to recompute offsets
+  const [measureVersion, setMeasureVersion] = useState(0);
+  // Page scroll past the top of the container, and the visible height
+  const [viewport, setViewport] = useState({ top: 0, height: 800 });
+  // The container only exists while there is something to list
+  const hasItems = count > 0;
+
+  useEffect(() => {
+    const update = () => {
+      const element = containerRef.current;
+      if (!element) return;
+      const top = -element.getBoundingClientRect().top;
+      const height = window.innerHeight;
+      setViewport(current => current.top === top && current.height === height ? current : { top, height });
+    };
+
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [containerRef, hasItems]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // offsets[i] is where item i starts; offsets[count] is the total height
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (let index = 0; index < count; index++) {
+      result.push(result[index] + (sizesRef.current.get(index) ?? estimateSize));
+    }
+    return result;
+    // measureVersion stands in for the contents of sizesRef
+  }, [count, estimateSize, measureVersion]);
+
+  const range: VirtualRange = count === 0
+    ? { start: 0, end: 0 }
+    : {
+        start: Math.max(0, findIndexAt(offsets, viewport.top) - overscan),
+        end: Math.min(count, findIndexAt(offsets, viewport.top + viewport.height) + 1 + overscan)
+      };
+
+  // Ref callback for rendered items; reads the index from data-index
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const target = entry.target as HTMLElement;
+          const index = Number(target.dataset.index);
+          const size = target.offsetHeight;
+          if (!Number.isNaN(index) && size > 0 && sizesRef.current.get(index) !== size) {
+            sizesRef.current.set(index, size);
+            changed = true;
+          }
+        });
+        if (changed) setMeasureVersion(version => version + 1);
+      });
+    }
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  // Forget measurements, e.g. when the items or the layout change. Items
+  // still mounted keep their element, so they are measured again here rather
+  // than waiting on a resize that may never come.
+  const resetMeasurements = useCallback(() => {
+    sizesRef.current.clear();
+    containerRef.current?.querySelectorAll<HTMLElement>('[data-index]').forEach(element => {
+      const index = Number(element.dataset.index);
+      const size = element.offsetHeight;
+      if (!Number.isNaN(index) && size > 0) sizesRef.current.set(index, size);
+    });
+    setMeasureVersion(version => version + 1);
+  }, [containerRef]);
+
+  // Scroll the page just enough to show an item, mounting it if needed
+  const scrollToIndex = useCallback((index: number) => {
+    const element = containerRef.current;
+    if (!element || index < 0 || index >= count) return;
+    const containerTop = element.getBoundingClientRect().top + window.scrollY;
+    const itemTop = containerTop + offsets[index];
+    const itemBottom = containerTop + offsets[index + 1];
+    if (itemTop < window.scrollY) {
+      window.scrollTo({ top: itemTop });
+    } else if (itemBottom > window.scrollY + window.innerHeight) {
+      window.scrollTo({ top: Math.min(itemTop, itemBottom - window.innerHeight) });
+    }
+  }, [containerRef, count, offsets]);
+
+  return {
+    range,
+    // Padding standing in for the items before and after the range
+    paddingTop: offsets[range.start],
+    paddingBottom: offsets[count] - offsets[range.end],
+    measureElement,
+    resetMeasurements,
+    scrollToIndex
+  };
+}
@@ -0,0 +1,121 @@
+import type { StoreCategory } from '../types/bookstore';
+
+export interface CategoryInfo {
+  id: StoreCategory;
+  slug: string;
+  label: string;
+  pluralLabel: string;
+  description: string;
+}
+
+// Normalized store taxonomy, in display order
+export const STORE_CATEGORIES: Record<StoreCategory, CategoryInfo> = {
+  used: {
+    id: 'used',
+    slug: 'used-bookstores',
+    label: 'Used Bookstore',
+    pluralLabel: 'Used Bookstores',
+    description: 'Second-hand shops with general stock at everyday prices.'
+  },
+  rare: {
+    id: 'rare',
+    slug: 'rare-bookstores',
+    label: 'Rare Bookstore',
+    pluralLabel: 'Rare Bookstores',
+    description: 'Dealers in first editions, signed copies and collectible books.'
+  },
+  antiquarian: {
+    id: 'antiquarian',
+    slug: 'antiquarian-bookstores',
+    label: 'Antiquarian Bookstore',
+    pluralLabel: 'Antiquarian Bookstores',
+    description: 'Specialists in antique books, maps and historical printed material.'
+  },
+  comics: {
+    id: 'comics',
+    slug: 'comic-book-stores',
+    label: 'Comic Book Store',
+    pluralLabel: 'Comic Book Stores',
+    description: 'Shops focused on comics, graphic novels and bandes dessinées.'
+  },
+  other: {
+    id: 'other',
+    slug: 'other-bookstores',
+    label: 'Bookstore',
+    pluralLabel: 'Other Bookstores',
+    description: 'Book exchanges, library sales and other places to find used books.'
+  }
+};
+
+export const CATEGORY_LIST: CategoryInfo[] = Object.values(STORE_CATEGORIES);
+
+// Raw values produced by the Google Maps scraper (and common variants), lowercased
+const CATEGORY_ALIASES: Record<string, StoreCategory> = {
+  'used book store': 'used',
+  'used bookstore': 'used',
+  'used books': 'used',
+  'second hand bookstore': 'used',
+  'second-hand bookstore': 'used',
+  'book store': 'used',
+  'bookstore': 'used',
+  "librairie d'occasion": 'used',
+  'bouquiniste': 'used',
+  'rare book store': 'rare',
+  'rare bookstore': 'rare',
+  'rare books': 'rare',
+  'antique book store': 'antiquarian',
+  'antiquarian book store': 'antiquarian',
+  'antiquarian bookstore': 'antiquarian',
+  'antiquarian': 'antiquarian',
+  'livres anciens': 'antiquarian',
+  'comic book store': 'comics',
+  'comic shop': 'comics',
+  'comics': 'comics',
+  'bande dessinée': 'comics',
+  'library': 'other',
+  'book exchange': 'other'
+};
+
+/**
+ * Map a raw CSV category onto the normalized taxonomy
+ */
+export function normalizeCategory(rawCategory: string | undefined): StoreCategory {
+  const key = (rawCategory || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+  // The directory only lists bookstores, so an empty category means a general used shop
+  if (!key) return 'used';
+
+  if (key in STORE_CATEGORIES) return key as StoreCategory;
+  if (CATEGORY_ALIASES[key]) return CATEGORY_ALIASES[key];
+
+  // Fall back to keywords for scraper values we haven't aliased yet
+  if (key.includes('comic')) return 'comics';
+  if (key.includes('antiq')) return 'antiquarian';
+  if (key.includes('rare')) return 'rare';
+  if (key.includes('used') || key.includes('second')) return 'used';
+
+  return 'other';
+}
+
+/**
+ * Look up a category by its URL slug
+ */
+export function findCategoryBySlug(slug: string): CategoryInfo | undefined {
+  return CATEGORY_LIST.find(category => category.slug === slug);
+}
+
+/**
+ * Group stores by normalized category, keeping only categories that have stores
+ */
+export function groupByCategory<T extends { category?: string }>(stores: T[]): Map<StoreCategory, T[]> {
+  const groups = new Map<StoreCategory, T[]>();
+
+  CATEGORY_LIST.forEach(({ id }) => {
+    const matches = stores.filter(store => normalizeCategory(store.category) === id);
+    if (matches.length > 0) {
+      groups.set(id, matches);
+    }
+  });
+
+  return groups;
+}
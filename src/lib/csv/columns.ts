@@ -0,0 +1,46 @@
+import type { BookstoreData } from '../../types/bookstore';
+
+// Number of review slots exported by the Google Maps scraper
+export const REVIEW_SLOTS = 5;
+
+const REVIEW_FIELDS = ['author', 'rating', 'time', 'text'] as const;
+
+type ReviewField = typeof REVIEW_FIELDS[number];
+type ReviewColumn = `review${1 | 2 | 3 | 4 | 5}_${ReviewField}`;
+
+/**
+ * Column names a review field may appear under. The scraper exports
+ * `review_1_author` while the schema (and older exports) use `review1_author`.
+ */
+function reviewColumnAliases(slot: number, field: ReviewField): string[] {
+  return [`review_${slot}_${field}`, `review${slot}_${field}`];
+}
+
+/**
+ * Read the first non-empty value among a set of candidate columns
+ */
+function readColumn(row: Record<string, any>, columns: string[]): string {
+  for (const column of columns) {
+    const value = row[column];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value).trim();
+    }
+  }
+  return '';
+}
+
+/**
+ * Map the review columns of a raw CSV row onto the schema's reviewN_* keys
+ */
+export function mapReviewColumns(row: Record<string, any>): Partial<BookstoreData> {
+  const mapped: Partial<Record<ReviewColumn, string>> = {};
+
+  for (let slot = 1; slot <= REVIEW_SLOTS; slot++) {
+    REVIEW_FIELDS.forEach(field => {
+      const key = `review${slot}_${field}` as ReviewColumn;
+      mapped[key] = readColumn(row, reviewColumnAliases(slot, field));
+    });
+  }
+
+  return mapped;
+}
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import Papa from 'papaparse';
 import { BookstoreSchema, type BookstoreData } from '../../types/bookstore';
+import { mapReviewColumns } from './columns';
 
 export interface ParseResult {
   records: BookstoreData[];
@@ -24,14 +25,17 @@ function parseWorkingHours(workingHoursStr: string): Record<string, string> {
   }
 
   try {
-    // Remove the outer braces and split by comma
+    // Remove the outer braces and split before each day name; a plain comma
+    // split would break split shifts like "Monday: 10a.m.-1p.m., 2-6p.m."
     const cleanStr = workingHoursStr.replace(/^{|}$/g, '').trim();
     
     if (!cleanStr) {
       return defaultHours;
     }
     
-    const dayEntries = cleanStr.split(',');
+    const dayEntries = cleanStr.split(
+      /,\s*(?=(?:Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday|lundi|mardi|mercredi|jeudi|vendredi|samedi|dimanche)\s*:)/i
+    );
     
     const dayMap: Record<string, string> = {};
     
@@ -45,24 +49,31 @@ function parseWorkingHours(workingHoursStr: string): Record<string, string> {
         // Map day names to our column format
         switch (day) {
           case 'monday':
+          case 'lundi':
             dayMap.mon_hours = hours;
             break;
           case 'tuesday':
+          case 'mardi':
             dayMap.tue_hours = hours;
             break;
           case 'wednesday':
+          case 'mercredi':
             dayMap.wed_hours = hours;
             break;
           case 'thursday':
+          case 'jeudi':
             dayMap.thu_hours = hours;
             break;
           case 'friday':
+          case 'vendredi':
             dayMap.fri_hours = hours;
             break;
           case 'saturday':
+          case 'samedi':
             dayMap.sat_hours = hours;
             break;
           case 'sunday':
+          case 'dimanche':
             dayMap.sun_hours = hours;
             break;
         }
@@ -91,6 +102,7 @@ function mapCsvToSchema(row: any): Partial<BookstoreData> {
   return {
     name: row.name || '',
     description: row.description || '',
+    category: row.category || '',
     address: row.street || '',
     city: row.city || '',
     province: row.state || '',
@@ -114,7 +126,9 @@ function mapCsvToSchema(row: any): Partial<BookstoreData> {
     thu_hours: parsedHours.thu_hours,
     fri_hours: parsedHours.fri_hours,
     sat_hours: parsedHours.sat_hours,
-    sun_hours: parsedHours.sun_hours
+    sun_hours: parsedHours.sun_hours,
+    // Reviews are exported as review_1_author but stored as review1_author
+    ...mapReviewColumns(row)
   };
 }
 
@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseBookstores } from './csv/parser';
+import { processBookstore } from './processors/bookstore';
+import { assignStoreSlugs, formatSlugClashes, readSlugRegistry, type SlugClash } from './slugs';
+import { serializeSearchIndex, type SearchIndexSource } from './searchIndex';
+import type { ProcessedBookstore, SlugRegistryFile } from '../types/bookstore';
+
+/**
+ * Version of the canonical dataset format. Bump it whenever the shape of
+ * ProcessedBookstore changes so consumers can reject stale files.
+ */
+export const DATASET_VERSION = 4;
+
+export const DATASET_CSV_PATH = path.join(process.cwd(), 'src', 'data', 'bookstores.csv');
+export const DATASET_JSON_PATH = path.join(process.cwd(), 'public', 'data', 'bookstores.json');
+
+export interface CanonicalDataset {
+  version: number;
+  generatedAt: string;
+  // Content hash of the store records, changes only when the data does
+  hash: string;
+  count: number;
+  stores: ProcessedBookstore[];
+}
+
+export interface DatasetBuild {
+  dataset: CanonicalDataset;
+  // Registry updated with this build's slugs, for build:data to persist
+  registry: SlugRegistryFile;
+  slugClashes: SlugClash[];
+}
+
+/**
+ * Parse and process the bookstore CSV into the canonical dataset.
+ * Invalid rows are skipped (the parser logs them); two rows resolving to the
+ * same store ID fail the build.
+ */
+export async function buildDataset(
+  csvPath: string = DATASET_CSV_PATH,
+  registry?: SlugRegistryFile
+): Promise<DatasetBuild> {
+  const { records } = await parseBookstores(csvPath);
+  const stores = records.map(processBookstore);
+
+  const seen = new Map<string, ProcessedBookstore>();
+  const duplicates: string[] = [];
+  stores.forEach(store => {
+    const existing = seen.get(store.id);
+    if (existing) {
+      duplicates.push(`${store.id}: "${existing.name}" and "${store.name}"`);
+    }
+    seen.set(store.id, store);
+  });
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate store IDs in the bookstore data:\n  ${duplicates.join('\n  ')}`);
+  }
+
+  const assignment = assignStoreSlugs(stores, registry || await readSlugRegistry());
+  stores.forEach(store => {
+    const { slug, previous, added } = assignment.slugs.get(store.id)!;
+    store.slug = slug;
+    store.previousSlugs = previous;
+    store.addedAt = added;
+  });
+
+  return {
+    dataset: {
+      version: DATASET_VERSION,
+      generatedAt: new Date().toISOString(),
+      hash: createHash('sha256').update(JSON.stringify(stores)).digest('hex').slice(0, 12),
+      count: stores.length,
+      stores
+    },
+    registry: assignment.registry,
+    slugClashes: assignment.clashes
+  };
+}
+
+/**
+ * Check that parsed JSON is a dataset this build understands
+ */
+export function isCanonicalDataset(data: unknown): data is CanonicalDataset {
+  const dataset = data as CanonicalDataset;
+  return (
+    typeof dataset === 'object' &&
+    dataset !== null &&
+    dataset.version === DATASET_VERSION &&
+    Array.isArray(dataset.stores)
+  );
+}
+
+/**
+ * Read a dataset file written by an earlier build, or null when it is missing
+ * or unreadable. Files from older dataset versions are returned as-is so they
+ * can still be compared against; check isCanonicalDataset before relying on them.
+ */
+export async function readDatasetFile(inputPath: string = DATASET_JSON_PATH): Promise<CanonicalDataset | null> {
+  try {
+    const data = JSON.parse(await fs.readFile(inputPath, 'utf-8'));
+    return data && Array.isArray(data.stores) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the dataset to disk. Returns false and leaves the file untouched when
+ * its content hash is unchanged, so rebuilds don't churn generatedAt.
+ */
+export async function writeDataset(dataset: CanonicalDataset, outputPath: string = DATASET_JSON_PATH): Promise<boolean> {
+  const existing = await readDatasetFile(outputPath);
+  if (existing && isCanonicalDataset(existing) && existing.hash === dataset.hash) return false;
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, JSON.stringify(dataset));
+  return true;
+}
+
+let datasetPromise: Promise<CanonicalDataset> | null = null;
+
+/**
+ * The canonical dataset, built once per process and shared by every page and endpoint.
+ * Fails on slug clashes the registry has no resolution for yet, so colliding
+ * stores are never published under whichever slug happened to win.
+ */
+export function getDataset(): Promise<CanonicalDataset> {
+  if (!datasetPromise) {
+    datasetPromise = buildDataset().then(({ dataset, slugClashes }) => {
+      if (slugClashes.length > 0) {
+        throw new Error(
+          `Store slug clashes, run \`npm run build:data -- --accept-slug-clashes\` to record their disambiguated slugs:\n  ${formatSlugClashes(slugClashes)}`
+        );
+      }
+      return dataset;
+    }).catch(error => {
+      // Let the next caller retry instead of caching the failure
+      datasetPromise = null;
+      throw error;
+    });
+  }
+  return datasetPromise;
+}
+
+/**
+ * All stores in the canonical dataset
+ */
+export async function getStores(): Promise<ProcessedBookstore[]> {
+  return (await getDataset()).stores;
+}
+
+/**
+ * A store cut down to what the map islands read: reviews, listing strings and
+ * photo links are emptied rather than serialized into the page's island
+ * props. Order is kept, so the prebuilt search index still lines up.
+ */
+export function toMapStore(store: ProcessedBookstore): ProcessedBookstore {
+  const { ratingInfo, rawCategory, price_level, place_url, street_view, ...rest } = store;
+  return {
+    ...rest,
+    previousSlugs: [],
+    formattedAddress: '',
+    email: '',
+    photos_url: '',
+    hours: {},
+    ...(ratingInfo && { ratingInfo: { rating: ratingInfo.rating, numReviews: ratingInfo.numReviews, reviews: [] } })
+  };
+}
+
+export interface SearchIndexAsset extends SearchIndexSource {
+  // File name hash, also the route parameter of the index endpoint
+  hash: string;
+  body: string;
+}
+
+let searchIndexPromise: Promise<SearchIndexAsset> | null = null;
+
+/**
+ * The search index for the canonical dataset, serialized once per build.
+ * Its URL is named after a hash of its content, so a new dataset or index
+ * format always gets a new URL.
+ */
+export function getSearchIndexAsset(): Promise<SearchIndexAsset> {
+  if (!searchIndexPromise) {
+    searchIndexPromise = getDataset().then(dataset => {
+      const body = JSON.stringify(serializeSearchIndex(dataset.stores, dataset.hash));
+      const hash = createHash('sha256').update(body).digest('hex').slice(0, 12);
+      return { url: `/data/search-index.${hash}.json`, datasetHash: dataset.hash, hash, body };
+    }).catch(error => {
+      searchIndexPromise = null;
+      throw error;
+    });
+  }
+  return searchIndexPromise;
+}
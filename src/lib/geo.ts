@@ -0,0 +1,298 @@
+import type { ProcessedBookstore } from '../types/bookstore';
+
+export const EARTH_RADIUS_KM = 6371;
+
+// Defaults for the "Also nearby" list on store pages
+export const NEARBY_STORE_COUNT = 4;
+export const NEARBY_MAX_DISTANCE_KM = 150;
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  // west > east when the box crosses the antimeridian
+  east: number;
+  west: number;
+}
+
+export interface Neighbour<T> {
+  item: T;
+  distanceKm: number;
+}
+
+export interface SpatialIndex<T> {
+  size: number;
+  // The k closest items, nearest first
+  nearest(point: GeoPoint, k: number, options?: NearestOptions<T>): Neighbour<T>[];
+  // Every item within radiusKm, nearest first
+  withinRadius(point: GeoPoint, radiusKm: number): Neighbour<T>[];
+  // Every item inside the box, in index order
+  withinBounds(bounds: BoundingBox): T[];
+}
+
+export type CompassDirection = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+export interface NearbyStore {
+  store: ProcessedBookstore;
+  distanceKm: number;
+  // Direction from the store being viewed to this one
+  direction: CompassDirection;
+}
+
+export interface NearestOptions<T> {
+  maxDistanceKm?: number;
+  // Skip items without using up one of the k slots, e.g. the store being viewed
+  filter?: (item: T) => boolean;
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance in kilometres (Haversine formula)
+ */
+export function haversineDistance(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Initial bearing from one point to another, in degrees clockwise from north
+ */
+export function getBearing(from: GeoPoint, to: GeoPoint): number {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+const COMPASS_DIRECTIONS: CompassDirection[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * Eight-point compass direction from one point to another
+ */
+export function getCompassDirection(from: GeoPoint, to: GeoPoint): CompassDirection {
+  return COMPASS_DIRECTIONS[Math.round(getBearing(from, to) / 45) % 8];
+}
+
+/**
+ * A store's coordinates, or null when the CSV had none usable
+ */
+export function getStoreCoordinates(store: Pick<ProcessedBookstore, 'lat' | 'lng' | 'coordinates'>): GeoPoint | null {
+  const lat = store.coordinates?.lat ?? parseFloat(store.lat);
+  const lng = store.coordinates?.lng ?? parseFloat(store.lng);
+  if (isNaN(lat) || isNaN(lng) || (lat === 0 && lng === 0)) return null;
+  return { lat, lng };
+}
+
+/**
+ * Smallest box containing every point, or null for no points
+ */
+export function getBounds(points: GeoPoint[]): BoundingBox | null {
+  if (points.length === 0) return null;
+  return points.reduce<BoundingBox>((bounds, point) => ({
+    north: Math.max(bounds.north, point.lat),
+    south: Math.min(bounds.south, point.lat),
+    east: Math.max(bounds.east, point.lng),
+    west: Math.min(bounds.west, point.lng)
+  }), { north: -90, south: 90, east: -180, west: 180 });
+}
+
+export function isInBounds(point: GeoPoint, bounds: BoundingBox): boolean {
+  if (point.lat < bounds.south || point.lat > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? point.lng >= bounds.west && point.lng <= bounds.east
+    : point.lng >= bounds.west || point.lng <= bounds.east;
+}
+
+/**
+ * Closed ring of [lng, lat] pairs approximating a circle, for GeoJSON polygons
+ */
+export function getCircleRing(center: GeoPoint, radiusKm: number, steps = 64): [number, number][] {
+  const latRadius = radiusKm / 110.574;
+  const lngRadius = radiusKm / (111.32 * Math.cos(toRadians(center.lat)));
+  const ring: [number, number][] = [];
+  for (let i = 0; i <= steps; i++) {
+    const angle = (i / steps) * 2 * Math.PI;
+    ring.push([center.lng + lngRadius * Math.cos(angle), center.lat + latRadius * Math.sin(angle)]);
+  }
+  return ring;
+}
+
+// Points live on the unit sphere, where straight-line (chord) distance grows
+// with great-circle distance, so an ordinary 3-d tree answers spherical queries
+// without special cases at the poles or the antimeridian.
+type Vector = [number, number, number];
+
+interface KdNode {
+  index: number;
+  axis: 0 | 1 | 2;
+  left: KdNode | null;
+  right: KdNode | null;
+}
+
+function toVector(point: GeoPoint): Vector {
+  const lat = toRadians(point.lat);
+  const lng = toRadians(point.lng);
+  return [Math.cos(lat) * Math.cos(lng), Math.cos(lat) * Math.sin(lng), Math.sin(lat)];
+}
+
+function chordSquared(a: Vector, b: Vector): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function kmToChord(distanceKm: number): number {
+  return 2 * Math.sin(Math.min(distanceKm / EARTH_RADIUS_KM, Math.PI) / 2);
+}
+
+function buildTree(indices: number[], vectors: Vector[], depth: number): KdNode | null {
+  if (indices.length === 0) return null;
+  const axis = (depth % 3) as 0 | 1 | 2;
+  const sorted = [...indices].sort((a, b) => vectors[a][axis] - vectors[b][axis]);
+  const median = Math.floor(sorted.length / 2);
+  return {
+    index: sorted[median],
+    axis,
+    left: buildTree(sorted.slice(0, median), vectors, depth + 1),
+    right: buildTree(sorted.slice(median + 1), vectors, depth + 1)
+  };
+}
+
+/**
+ * Build a k-d tree over the items that have a location. Items without one
+ * (getPoint returns null) are left out of every query.
+ */
+export function createSpatialIndex<T>(items: T[], getPoint: (item: T) => GeoPoint | null): SpatialIndex<T> {
+  const entries = items
+    .map(item => ({ item, point: getPoint(item) }))
+    .filter((entry): entry is { item: T; point: GeoPoint } => entry.point !== null);
+  const vectors = entries.map(entry => toVector(entry.point));
+  const root = buildTree(entries.map((_, index) => index), vectors, 0);
+
+  const toNeighbour = (index: number, from: GeoPoint): Neighbour<T> => ({
+    item: entries[index].item,
+    distanceKm: haversineDistance(from, entries[index].point)
+  });
+
+  // Visit every index whose chord distance to target is within limit, where
+  // limit() may shrink as the search goes
+  const search = (target: Vector, limit: () => number, visit: (index: number, distance: number) => void) => {
+    const walk = (node: KdNode | null) => {
+      if (!node) return;
+      const distance = chordSquared(target, vectors[node.index]);
+      if (distance <= limit()) visit(node.index, distance);
+
+      const delta = target[node.axis] - vectors[node.index][node.axis];
+      const [near, far] = delta < 0 ? [node.left, node.right] : [node.right, node.left];
+      walk(near);
+      if (delta * delta <= limit()) walk(far);
+    };
+    walk(root);
+  };
+
+  const withinRadius = (point: GeoPoint, radiusKm: number): Neighbour<T>[] => {
+    const limit = kmToChord(radiusKm) ** 2;
+    const found: Array<{ index: number; distance: number }> = [];
+    search(toVector(point), () => limit, (index, distance) => found.push({ index, distance }));
+    return found
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ index }) => toNeighbour(index, point));
+  };
+
+  return {
+    size: entries.length,
+
+    nearest(point, k, options = {}) {
+      if (k <= 0) return [];
+      const maxChord = options.maxDistanceKm === undefined ? Infinity : kmToChord(options.maxDistanceKm) ** 2;
+      // Closest k so far, kept sorted nearest first
+      const best: Array<{ index: number; distance: number }> = [];
+      const limit = () => best.length < k ? maxChord : Math.min(maxChord, best[best.length - 1].distance);
+
+      search(toVector(point), limit, (index, distance) => {
+        if (options.filter && !options.filter(entries[index].item)) return;
+        const position = best.findIndex(candidate => candidate.distance > distance);
+        best.splice(position === -1 ? best.length : position, 0, { index, distance });
+        if (best.length > k) best.pop();
+      });
+
+      return best.map(({ index }) => toNeighbour(index, point));
+    },
+
+    withinRadius,
+
+    withinBounds(bounds) {
+      const width = bounds.west <= bounds.east ? bounds.east - bounds.west : bounds.east - bounds.west + 360;
+      const inBox = (entry: { point: GeoPoint }) => isInBounds(entry.point, bounds);
+      // Boxes spanning more than half the globe are not worth narrowing first
+      if (width > 180) return entries.filter(inBox).map(entry => entry.item);
+
+      // Search the circle through the box's corners, then trim to the box itself
+      const center = {
+        lat: (bounds.north + bounds.south) / 2,
+        lng: ((bounds.west + width / 2 + 540) % 360) - 180
+      };
+      const radiusKm = Math.max(
+        haversineDistance(center, { lat: bounds.north, lng: bounds.west }),
+        haversineDistance(center, { lat: bounds.south, lng: bounds.west })
+      );
+      const candidates: number[] = [];
+      search(toVector(center), () => kmToChord(radiusKm) ** 2, index => candidates.push(index));
+      return candidates
+        .sort((a, b) => a - b)
+        .filter(index => inBox(entries[index]))
+        .map(index => entries[index].item);
+    }
+  };
+}
+
+const storeIndexes = new WeakMap<ProcessedBookstore[], SpatialIndex<ProcessedBookstore>>();
+
+/**
+ * Spatial index over a store list, built once per array. Pages share the
+ * canonical dataset's array, so a build indexes it once; the browser indexes
+ * whatever list it was handed.
+ */
+export function getStoreIndex(stores: ProcessedBookstore[]): SpatialIndex<ProcessedBookstore> {
+  let index = storeIndexes.get(stores);
+  if (!index) {
+    index = createSpatialIndex(stores, getStoreCoordinates);
+    storeIndexes.set(stores, index);
+  }
+  return index;
+}
+
+/**
+ * The closest operational stores to a given one, nearest first. Stores further
+ * than maxDistanceKm are left out, so remote listings get a short list or none.
+ */
+export function getNearbyStores(
+  stores: ProcessedBookstore[],
+  store: ProcessedBookstore,
+  limit: number = NEARBY_STORE_COUNT,
+  maxDistanceKm: number = NEARBY_MAX_DISTANCE_KM
+): NearbyStore[] {
+  const origin = getStoreCoordinates(store);
+  if (!origin) return [];
+
+  return getStoreIndex(stores)
+    .nearest(origin, limit, {
+      maxDistanceKm,
+      filter: candidate => candidate.id !== store.id && candidate.status === 'OPERATIONAL'
+    })
+    .map(({ item, distanceKm }) => ({
+      store: item,
+      distanceKm,
+      direction: getCompassDirection(origin, getStoreCoordinates(item)!)
+    }));
+}
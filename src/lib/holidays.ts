@@ -0,0 +1,163 @@
+import { getProvinceCode } from '../utils/geographic';
+
+export interface Holiday {
+  id: string;
+  name: string;
+  // Calendar date, YYYY-MM-DD
+  date: string;
+  // Province codes observing the holiday
+  provinces: string[];
+}
+
+interface HolidayRule {
+  id: string;
+  name: string;
+  provinces: string[] | 'all';
+  date: (year: number) => string;
+}
+
+const ALL_PROVINCES = ['NL', 'PE', 'NS', 'NB', 'QC', 'ON', 'MB', 'SK', 'AB', 'BC', 'YT', 'NT', 'NU'];
+
+function toIsoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function fixed(month: number, day: number) {
+  return (year: number) => toIsoDate(year, month, day);
+}
+
+/**
+ * The nth given weekday (0 = Sunday) of a month, e.g. the third Monday of February
+ */
+function nthWeekday(month: number, weekday: number, n: number) {
+  return (year: number) => {
+    const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+    return toIsoDate(year, month, day);
+  };
+}
+
+/**
+ * The last given weekday on or before a date, e.g. the Monday on or before May 24
+ */
+function weekdayOnOrBefore(month: number, day: number, weekday: number) {
+  return (year: number) => {
+    const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    return toIsoDate(year, month, day - ((dayOfWeek - weekday + 7) % 7));
+  };
+}
+
+/**
+ * The Monday nearest a date, as used for the Newfoundland and Labrador holidays
+ */
+function nearestMonday(month: number, day: number) {
+  return (year: number) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    const offset = ((1 - date.getUTCDay() + 7) % 7 + 3) % 7 - 3;
+    date.setUTCDate(date.getUTCDate() + offset);
+    return toIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  };
+}
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm), shifted by a number of days
+ */
+function easterOffset(days: number) {
+  return (year: number) => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+    const easter = new Date(Date.UTC(year, month - 1, day + days));
+    return toIsoDate(easter.getUTCFullYear(), easter.getUTCMonth() + 1, easter.getUTCDate());
+  };
+}
+
+// Federal and provincial statutory holidays
+const HOLIDAY_RULES: HolidayRule[] = [
+  { id: 'new-years-day', name: "New Year's Day", provinces: 'all', date: fixed(1, 1) },
+  { id: 'family-day', name: 'Family Day', provinces: ['AB', 'BC', 'NB', 'ON', 'SK'], date: nthWeekday(2, 1, 3) },
+  { id: 'louis-riel-day', name: 'Louis Riel Day', provinces: ['MB'], date: nthWeekday(2, 1, 3) },
+  { id: 'islander-day', name: 'Islander Day', provinces: ['PE'], date: nthWeekday(2, 1, 3) },
+  { id: 'heritage-day-ns', name: 'Nova Scotia Heritage Day', provinces: ['NS'], date: nthWeekday(2, 1, 3) },
+  { id: 'st-patricks-day', name: "St. Patrick's Day", provinces: ['NL'], date: nearestMonday(3, 17) },
+  { id: 'good-friday', name: 'Good Friday', provinces: 'all', date: easterOffset(-2) },
+  { id: 'easter-monday', name: 'Easter Monday', provinces: ['QC'], date: easterOffset(1) },
+  { id: 'st-georges-day', name: "St. George's Day", provinces: ['NL'], date: nearestMonday(4, 23) },
+  {
+    id: 'victoria-day',
+    name: 'Victoria Day',
+    provinces: ALL_PROVINCES.filter(code => code !== 'QC'),
+    date: weekdayOnOrBefore(5, 24, 1)
+  },
+  { id: 'national-patriots-day', name: "National Patriots' Day", provinces: ['QC'], date: weekdayOnOrBefore(5, 24, 1) },
+  { id: 'national-indigenous-peoples-day', name: 'National Indigenous Peoples Day', provinces: ['NT', 'YT'], date: fixed(6, 21) },
+  { id: 'saint-jean-baptiste', name: 'Saint-Jean-Baptiste Day', provinces: ['QC'], date: fixed(6, 24) },
+  { id: 'discovery-day-nl', name: 'Discovery Day', provinces: ['NL'], date: nearestMonday(6, 24) },
+  { id: 'canada-day', name: 'Canada Day', provinces: 'all', date: fixed(7, 1) },
+  { id: 'orangemens-day', name: "Orangemen's Day", provinces: ['NL'], date: nearestMonday(7, 12) },
+  { id: 'civic-holiday', name: 'Civic Holiday', provinces: ['ON', 'MB', 'NT', 'NU'], date: nthWeekday(8, 1, 1) },
+  { id: 'heritage-day-ab', name: 'Heritage Day', provinces: ['AB'], date: nthWeekday(8, 1, 1) },
+  { id: 'bc-day', name: 'British Columbia Day', provinces: ['BC'], date: nthWeekday(8, 1, 1) },
+  { id: 'saskatchewan-day', name: 'Saskatchewan Day', provinces: ['SK'], date: nthWeekday(8, 1, 1) },
+  { id: 'new-brunswick-day', name: 'New Brunswick Day', provinces: ['NB'], date: nthWeekday(8, 1, 1) },
+  { id: 'natal-day', name: 'Natal Day', provinces: ['NS'], date: nthWeekday(8, 1, 1) },
+  { id: 'discovery-day-yt', name: 'Discovery Day', provinces: ['YT'], date: nthWeekday(8, 1, 3) },
+  { id: 'labour-day', name: 'Labour Day', provinces: 'all', date: nthWeekday(9, 1, 1) },
+  {
+    id: 'truth-and-reconciliation-day',
+    name: 'National Day for Truth and Reconciliation',
+    provinces: ['BC', 'MB', 'NS', 'PE', 'YT', 'NT', 'NU'],
+    date: fixed(9, 30)
+  },
+  {
+    id: 'thanksgiving',
+    name: 'Thanksgiving',
+    provinces: ALL_PROVINCES.filter(code => !['NB', 'NS', 'PE', 'NL'].includes(code)),
+    date: nthWeekday(10, 1, 2)
+  },
+  {
+    id: 'remembrance-day',
+    name: 'Remembrance Day',
+    provinces: ALL_PROVINCES.filter(code => !['ON', 'QC', 'MB'].includes(code)),
+    date: fixed(11, 11)
+  },
+  { id: 'christmas-day', name: 'Christmas Day', provinces: 'all', date: fixed(12, 25) },
+  { id: 'boxing-day', name: 'Boxing Day', provinces: ['ON'], date: fixed(12, 26) }
+];
+
+/**
+ * Holidays for a year, optionally limited to those observed in one province
+ */
+export function getHolidays(year: number, province?: string): Holiday[] {
+  const code = province ? getProvinceCode(province) : undefined;
+
+  return HOLIDAY_RULES
+    .map(rule => ({
+      id: rule.id,
+      name: rule.name,
+      date: rule.date(year),
+      provinces: rule.provinces === 'all' ? ALL_PROVINCES : rule.provinces
+    }))
+    .filter(holiday => !code || holiday.provinces.includes(code))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Find the holiday observed in a province on a YYYY-MM-DD date, if any
+ */
+export function getHoliday(date: string, province: string): Holiday | undefined {
+  const year = parseInt(date.slice(0, 4), 10);
+  return getHolidays(year, province).find(holiday => holiday.date === date);
+}
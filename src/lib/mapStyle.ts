@@ -0,0 +1,164 @@
+import type { StyleSpecification } from 'maplibre-gl';
+
+/**
+ * MapLibre style for the self-hosted Canada basemap. It draws the Protomaps
+ * basemap schema (earth, water, landcover, roads, boundaries, places) read
+ * from a PMTiles archive, with glyphs served from the same site, so nothing
+ * is fetched from elsewhere.
+ */
+
+// Source id of the basemap in the style
+export const LOCAL_BASEMAP_SOURCE = 'protomaps';
+// Font stacks bundled alongside the archive
+export const LOCAL_LABEL_FONT = ['Noto Sans Medium'];
+const LOCAL_TEXT_FONT = ['Noto Sans Regular'];
+
+const LAND_COLOR = '#f3f1ea';
+const WATER_COLOR = '#a9cfe8';
+const PARK_COLOR = '#d5e8c8';
+const ROAD_COLOR = '#ffffff';
+const ROAD_CASING_COLOR = '#d6d3cb';
+const BOUNDARY_COLOR = '#9b8fa8';
+const LABEL_COLOR = '#4b5563';
+
+/**
+ * Build the style for an archive and glyph set served from `origin`.
+ * MapLibre fetches tiles and glyphs off the page, so the URLs must be absolute.
+ */
+export function createCanadaStyle(origin: string, archivePath: string, glyphsPath: string): StyleSpecification {
+  return {
+    version: 8,
+    name: 'Canada (self-hosted)',
+    glyphs: `${origin}${glyphsPath}/{fontstack}/{range}.pbf`,
+    sources: {
+      [LOCAL_BASEMAP_SOURCE]: {
+        type: 'vector',
+        url: `pmtiles://${origin}${archivePath}`,
+        attribution: '<a href="https://protomaps.com">Protomaps</a> © <a href="https://openstreetmap.org/copyright">OpenStreetMap</a>'
+      }
+    },
+    layers: [
+      {
+        id: 'background',
+        type: 'background',
+        paint: { 'background-color': WATER_COLOR }
+      },
+      {
+        id: 'earth',
+        type: 'fill',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'earth',
+        paint: { 'fill-color': LAND_COLOR }
+      },
+      {
+        id: 'landcover-forest',
+        type: 'fill',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'landcover',
+        filter: ['in', ['get', 'kind'], ['literal', ['forest', 'grassland', 'scrub']]],
+        paint: { 'fill-color': PARK_COLOR, 'fill-opacity': ['interpolate', ['linear'], ['zoom'], 5, 0.6, 9, 0.2] }
+      },
+      {
+        id: 'landuse-park',
+        type: 'fill',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'landuse',
+        filter: ['in', ['get', 'kind'], ['literal', ['park', 'national_park', 'nature_reserve', 'protected_area']]],
+        paint: { 'fill-color': PARK_COLOR }
+      },
+      {
+        id: 'water',
+        type: 'fill',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'water',
+        paint: { 'fill-color': WATER_COLOR }
+      },
+      {
+        id: 'boundaries-region',
+        type: 'line',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'boundaries',
+        filter: ['==', ['get', 'kind'], 'region'],
+        paint: { 'line-color': BOUNDARY_COLOR, 'line-width': 1, 'line-dasharray': [3, 2] }
+      },
+      {
+        id: 'boundaries-country',
+        type: 'line',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'boundaries',
+        filter: ['==', ['get', 'kind'], 'country'],
+        paint: { 'line-color': BOUNDARY_COLOR, 'line-width': 1.5 }
+      },
+      {
+        id: 'roads-casing',
+        type: 'line',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'roads',
+        minzoom: 7,
+        filter: ['in', ['get', 'kind'], ['literal', ['highway', 'major_road']]],
+        layout: { 'line-cap': 'round', 'line-join': 'round' },
+        paint: {
+          'line-color': ROAD_CASING_COLOR,
+          'line-width': ['interpolate', ['exponential', 1.6], ['zoom'], 7, 1.5, 14, 10]
+        }
+      },
+      {
+        id: 'roads-minor',
+        type: 'line',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'roads',
+        minzoom: 12,
+        filter: ['==', ['get', 'kind'], 'minor_road'],
+        layout: { 'line-cap': 'round', 'line-join': 'round' },
+        paint: {
+          'line-color': ROAD_COLOR,
+          'line-width': ['interpolate', ['exponential', 1.6], ['zoom'], 12, 0.5, 16, 6]
+        }
+      },
+      {
+        id: 'roads-major',
+        type: 'line',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'roads',
+        minzoom: 5,
+        filter: ['in', ['get', 'kind'], ['literal', ['highway', 'major_road']]],
+        layout: { 'line-cap': 'round', 'line-join': 'round' },
+        paint: {
+          'line-color': ROAD_COLOR,
+          'line-width': ['interpolate', ['exponential', 1.6], ['zoom'], 5, 0.5, 14, 7]
+        }
+      },
+      {
+        id: 'places-region',
+        type: 'symbol',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'places',
+        maxzoom: 8,
+        filter: ['==', ['get', 'kind'], 'region'],
+        layout: {
+          'text-field': ['get', 'name'],
+          'text-font': LOCAL_TEXT_FONT,
+          'text-size': 12,
+          'text-transform': 'uppercase',
+          'text-letter-spacing': 0.1
+        },
+        paint: { 'text-color': '#8b8398', 'text-halo-color': LAND_COLOR, 'text-halo-width': 1.5 }
+      },
+      {
+        id: 'places-locality',
+        type: 'symbol',
+        source: LOCAL_BASEMAP_SOURCE,
+        'source-layer': 'places',
+        filter: ['==', ['get', 'kind'], 'locality'],
+        layout: {
+          'text-field': ['get', 'name'],
+          'text-font': LOCAL_TEXT_FONT,
+          'text-size': ['interpolate', ['linear'], ['zoom'], 4, 11, 12, 15],
+          // Larger towns win when labels collide
+          'symbol-sort-key': ['-', ['coalesce', ['get', 'population_rank'], 0]]
+        },
+        paint: { 'text-color': LABEL_COLOR, 'text-halo-color': '#ffffff', 'text-halo-width': 1.5 }
+      }
+    ]
+  };
+}
@@ -0,0 +1,61 @@
+import type { StyleSpecification } from 'maplibre-gl';
+import { createCanadaStyle, LOCAL_LABEL_FONT } from './mapStyle';
+
+/**
+ * Where the interactive map gets its basemap, chosen at build time with
+ * PUBLIC_MAP_TILES:
+ *
+ * - `remote` (default): the hosted MapLibre demo style
+ * - `local`: a PMTiles archive and glyphs served from public/map, for
+ *   offline dev containers and flaky connections
+ *
+ * The archive and glyphs are not checked in. Extract Canada from a Protomaps
+ * build with the pmtiles CLI, e.g.
+ * `pmtiles extract https://build.protomaps.com/<date>.pmtiles public/map/canada.pmtiles --bbox=-141.1,41.6,-52.5,83.2 --maxzoom=12`,
+ * and copy the Noto Sans font stacks from protomaps/basemaps-assets into
+ * public/map/fonts.
+ */
+export type MapTileMode = 'remote' | 'local';
+
+export interface MapTileConfig {
+  mode: MapTileMode;
+  // Font stack for labels the app adds on top, e.g. cluster counts; it must
+  // be one the style's glyph server has
+  labelFont: string[];
+}
+
+const REMOTE_STYLE_URL = 'https://demotiles.maplibre.org/style.json';
+const REMOTE_LABEL_FONT = ['Open Sans Semibold'];
+const LOCAL_ARCHIVE_PATH = '/map/canada.pmtiles';
+const LOCAL_GLYPHS_PATH = '/map/fonts';
+
+export const MAP_TILE_MODE: MapTileMode = import.meta.env?.PUBLIC_MAP_TILES === 'local' ? 'local' : 'remote';
+
+export const MAP_TILE_CONFIG: MapTileConfig = {
+  mode: MAP_TILE_MODE,
+  labelFont: MAP_TILE_MODE === 'local' ? LOCAL_LABEL_FONT : REMOTE_LABEL_FONT
+};
+
+let protocolReady: Promise<void> | null = null;
+
+// MapLibre learns pmtiles:// URLs once per page, whichever map asks first
+function registerPMTilesProtocol(): Promise<void> {
+  protocolReady ??= Promise.all([import('maplibre-gl'), import('pmtiles')]).then(([module, { Protocol }]) => {
+    // The UMD bundle may arrive wrapped as a default export, as react-map-gl also allows for
+    const maplibre = 'addProtocol' in module ? module : (module as { default: typeof module }).default;
+    const protocol = new Protocol();
+    maplibre.addProtocol('pmtiles', protocol.tile);
+  });
+  return protocolReady;
+}
+
+/**
+ * Resolve the style for the configured tiles. Local tiles need the PMTiles
+ * protocol in place before the map requests anything, so the map should wait
+ * for this rather than being handed a style straight away.
+ */
+export async function loadMapStyle(config: MapTileConfig = MAP_TILE_CONFIG): Promise<string | StyleSpecification> {
+  if (config.mode === 'remote') return REMOTE_STYLE_URL;
+  await registerPMTilesProtocol();
+  return createCanadaStyle(window.location.origin, LOCAL_ARCHIVE_PATH, LOCAL_GLYPHS_PATH);
+}
@@ -0,0 +1,57 @@
+/**
+ * Text folding shared by the search index and the queries run against it, so
+ * "Montreal" finds "Montréal", "st-jerome" finds "Saint-Jérôme" and
+ * "Big John's" finds "Big John’s". The static store listing folds its
+ * filter input with the same function.
+ */
+
+// Letters NFD leaves whole
+const LIGATURES: Record<string, string> = {
+  'œ': 'oe',
+  'æ': 'ae',
+  'ß': 'ss',
+  'ø': 'o',
+  'ł': 'l',
+  'đ': 'd'
+};
+
+// Typographic quotes, primes and accents typed in place of an apostrophe
+const APOSTROPHES = /[\u2018\u2019\u201b\u02bc\u02b9\u2032\u00b4`]/g;
+
+// French elisions (l'île, d'arcy, qu'il) split into words; other apostrophes
+// (john's) simply drop
+const ELISION = /\b(l|d|j|m|n|s|t|c|qu|jusqu|lorsqu|puisqu)'(?=[a-z])/g;
+
+// Dotted initials such as "B.D." or "E.C.", read as one word
+const INITIALISM = /\b(?:[a-z]\.){2,}/g;
+
+// "St-Jean", "St. Catharines", "Ste Anne", but not the "St" of "Main St West":
+// a bare space only counts at the start of the text
+const SAINT_ABBREVIATION = /(?:^(st|ste)(?:\.\s*|-|\s+)|\b(st|ste)(?:\.\s*|-))(?=[a-z]{2})/g;
+
+/**
+ * Lower-case, accent-free, punctuation-free form of a string for matching.
+ * Words are separated by single spaces.
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[œæßøłđ]/g, letter => LIGATURES[letter])
+    // NFKD also splits compatibility ligatures such as "ﬁ"
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(APOSTROPHES, "'")
+    .replace(ELISION, '$1 ')
+    .replace(/'/g, '')
+    .replace(INITIALISM, initials => initials.replace(/\./g, ''))
+    .replace(SAINT_ABBREVIATION, (_, leading?: string, inner?: string) => (leading ?? inner) === 'st' ? 'saint ' : 'sainte ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Whether the folded text contains the folded query
+ */
+export function includesSearchText(text: string | undefined | null, query: string): boolean {
+  return !!text && normalizeSearchText(text).includes(normalizeSearchText(query));
+}
@@ -1,4 +1,9 @@
-import type { BookstoreData, ProcessedBookstore, GoogleReview } from '../../types/bookstore';
+import { normalizeCategory } from '../categories';
+import { getHoursLocale, parseOpeningHours } from './hours';
+import { resolveHolidayClosures, resolveHoursOverrides } from './overrides';
+import { resolveTimeZone } from '../timezones';
+import { generateStoreSlug, hashString } from '../../utils/slugify';
+import { GoogleReviewSchema, type BookstoreData, type ProcessedBookstore, type GoogleReview } from '../../types/bookstore';
 
 function parseNumber(value: string | undefined): number | undefined {
   if (!value) return undefined;
@@ -14,14 +19,33 @@ function processReview(
 ): GoogleReview | undefined {
   if (!author && !rating && !time && !text) return undefined;
   
-  return {
-    author: author || '',
-    rating: parseNumber(rating) || 0,
-    time: time || '',
+  const result = GoogleReviewSchema.safeParse({
+    author,
+    rating,
+    timestamp: time,
     text: text || ''
+  });
+  
+  // Drop partial reviews rather than rendering blank authors or zero stars
+  if (!result.success) return undefined;
+  
+  return {
+    ...result.data,
+    time: new Date(result.data.timestamp * 1000).toISOString()
   };
 }
 
+/**
+ * Stable identifier for a store: its Google place_id, or a hash of its
+ * name and address for rows that were added without one
+ */
+function createStoreId(data: BookstoreData): string {
+  if (data.place_id?.trim()) return data.place_id.trim();
+
+  const key = [data.name, data.address, data.city, data.province].join('|').toLowerCase();
+  return `store-${hashString(key)}`;
+}
+
 export function processBookstore(data: BookstoreData): ProcessedBookstore {
   // Process coordinates
   const latitude = parseNumber(data.lat);
@@ -45,6 +69,16 @@ export function processBookstore(data: BookstoreData): ProcessedBookstore {
     if (review) reviews.push(review);
   }
   
+  const hours: ProcessedBookstore['hours'] = {
+    monday: data.mon_hours,
+    tuesday: data.tue_hours,
+    wednesday: data.wed_hours,
+    thursday: data.thu_hours,
+    friday: data.fri_hours,
+    saturday: data.sat_hours,
+    sunday: data.sun_hours
+  };
+  
   // Create formatted fields
   const formattedAddress = `${data.address}, ${data.city}, ${data.province} ${data.zip}`;
   
@@ -55,8 +89,14 @@ export function processBookstore(data: BookstoreData): ProcessedBookstore {
   
   // Return processed data
   return {
+    id: createStoreId(data),
+    // Base slug; buildDataset settles the final one against the slug registry
+    slug: generateStoreSlug(data.name, data.city, data.province),
+    previousSlugs: [],
     name: data.name,
     description: data.description,
+    category: normalizeCategory(data.category),
+    rawCategory: data.category || undefined,
     address: data.address,
     city: data.city,
     province: data.province,
@@ -83,15 +123,11 @@ export function processBookstore(data: BookstoreData): ProcessedBookstore {
       : undefined,
       
     // Hours data
-    hours: {
-      monday: data.mon_hours,
-      tuesday: data.tue_hours,
-      wednesday: data.wed_hours,
-      thursday: data.thu_hours,
-      friday: data.fri_hours,
-      saturday: data.sat_hours,
-      sunday: data.sun_hours
-    },
+    hours,
+    openingHours: parseOpeningHours(hours, getHoursLocale(data.province)),
+    hoursOverrides: resolveHoursOverrides(data.place_id, getHoursLocale(data.province)),
+    closedOnHolidays: resolveHolidayClosures(data.place_id),
+    timeZone: resolveTimeZone(data.province, latitude, longitude),
     
     // Photo URL
     photos_url: photoUrl,
@@ -0,0 +1,205 @@
+import type { DayHours, DayOfWeek, OpeningHours, ProcessedBookstore, TimeInterval } from '../../types/bookstore';
+import { getProvinceCode } from '../../utils/geographic';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Display order, Monday first
+export const WEEKDAYS: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export type HoursLocale = 'en' | 'fr';
+
+type Meridiem = 'am' | 'pm';
+
+interface TimeToken {
+  hours: number;
+  minutes: number;
+  meridiem?: Meridiem;
+  // Written on a 24-hour clock ("17 h", "09:00", "14:30"), so no meridiem inference applies
+  clock24?: boolean;
+}
+
+interface HoursGrammar {
+  closed: RegExp;
+  open24: RegExp;
+  rangeSeparator: RegExp;
+  intervalSeparator: RegExp;
+  namedTimes: Record<string, TimeToken>;
+}
+
+// Listing vocabulary per language; numeric time formats are shared (see parseTimeToken)
+const HOURS_GRAMMARS: Record<HoursLocale, HoursGrammar> = {
+  en: {
+    closed: /^closed(?:\s+all\s+day)?$/i,
+    open24: /24\s*hours|24\/7|open\s+all\s+day/i,
+    rangeSeparator: /\s*(?:–|—|-)\s*|\s+(?:to|until)\s+/i,
+    intervalSeparator: /\s*(?:,|;|&)\s*|\s+and\s+/i,
+    namedTimes: {
+      noon: { hours: 12, minutes: 0, meridiem: 'pm' },
+      midday: { hours: 12, minutes: 0, meridiem: 'pm' },
+      midnight: { hours: 12, minutes: 0, meridiem: 'am' }
+    }
+  },
+  fr: {
+    closed: /^ferm[ée]e?(?:\s+toute\s+la\s+journ[ée]e)?$/i,
+    open24: /24\s*h(?:eures)?\s*(?:sur|\/)\s*24|ouvert\s+24\s*h(?:eures)?/i,
+    rangeSeparator: /\s*(?:–|—|-)\s*|\s+(?:à|a|jusqu'à|jusqu’à)\s+/i,
+    intervalSeparator: /\s*(?:,|;|&)\s*|\s+et\s+/i,
+    namedTimes: {
+      midi: { hours: 12, minutes: 0, meridiem: 'pm' },
+      minuit: { hours: 12, minutes: 0, meridiem: 'am' }
+    }
+  }
+};
+
+// "Sunday: Open 24 hours" / "lundi : 9 h à 17 h" - some exports repeat the day name inside the value
+const DAY_PREFIX = /^(?:mon|tue|wed|thu|fri|sat|sun|lun|mar|mer|jeu|ven|sam|dim)[a-zé]*\s*:\s*/i;
+
+// Bare 12-hour numbers below this hour open in the afternoon ("2-6" is 2 PM to 6 PM)
+const EARLIEST_MORNING_OPENING = 7;
+
+/**
+ * Parse a single time such as "10a.m.", "5:30 PM", "14:30", "9 h", "17h30", "12" or "noon"
+ */
+function parseTimeToken(token: string, grammar: HoursGrammar): TimeToken | null {
+  const clean = token.trim().toLowerCase();
+
+  if (grammar.namedTimes[clean]) return grammar.namedTimes[clean];
+
+  // French style: "9 h", "9h30", "17 h 30"
+  const frenchMatch = clean.match(/^(\d{1,2})\s*h\s*(\d{2})?$/);
+  if (frenchMatch) {
+    const hours = parseInt(frenchMatch[1], 10);
+    const minutes = parseInt(frenchMatch[2] || '0', 10);
+    if (hours > 24 || minutes >= 60) return null;
+    return { hours, minutes, clock24: true };
+  }
+
+  const match = clean.match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(?:([ap])\.?\s*m\.?)?$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2] || '0', 10);
+  if (minutes >= 60) return null;
+
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null;
+    return { hours, minutes, meridiem: match[3] === 'a' ? 'am' : 'pm' };
+  }
+
+  if (hours > 24) return null;
+  // "09:00", "0:30" and "14:30" can only be read on a 24-hour clock
+  const clock24 = hours > 12 || hours === 0 || match[1].length === 2 && match[1].startsWith('0');
+  return { hours, minutes, clock24 };
+}
+
+function toMinutes(token: TimeToken, meridiem: Meridiem | undefined = token.meridiem): number {
+  if (!meridiem) return token.hours * 60 + token.minutes;
+  const hours = (token.hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  return hours * 60 + token.minutes;
+}
+
+/**
+ * Resolve an open/close pair into minutes. Ambiguity rules, in order:
+ * 1. Both ends carry a meridiem: take them literally.
+ * 2. One end carries a meridiem: share it with the other end unless that
+ *    would put opening after closing ("12-5p.m." is noon to 5 PM, "10-2p.m." is 10 AM).
+ * 3. Either end is on a 24-hour clock ("9 h à 17 h", "14:00-18:00"): take both literally.
+ * 4. Bare 12-hour numbers ("9-5", "2-6"): opening hours from 7 to 11 are morning,
+ *    12 is noon and 1 to 6 are afternoon; closing is the first matching hour after opening.
+ * Whatever remains with closing at or before opening runs past midnight.
+ */
+function resolveInterval(open: TimeToken, close: TimeToken): TimeInterval {
+  let openMinutes: number;
+  let closeMinutes: number;
+
+  if (open.meridiem && close.meridiem) {
+    openMinutes = toMinutes(open);
+    closeMinutes = toMinutes(close);
+  } else if (!open.meridiem && close.meridiem && !open.clock24) {
+    closeMinutes = toMinutes(close);
+    openMinutes = toMinutes(open, close.meridiem);
+    if (openMinutes > closeMinutes) openMinutes = toMinutes(open, 'am');
+  } else if (open.meridiem && !close.meridiem && !close.clock24) {
+    openMinutes = toMinutes(open);
+    closeMinutes = toMinutes(close, open.meridiem);
+    if (closeMinutes <= openMinutes) closeMinutes = toMinutes(close, 'pm');
+  } else if (open.clock24 || close.clock24 || open.meridiem || close.meridiem) {
+    openMinutes = toMinutes(open);
+    closeMinutes = toMinutes(close);
+  } else {
+    openMinutes = toMinutes(open, open.hours >= EARLIEST_MORNING_OPENING && open.hours < 12 ? 'am' : 'pm');
+    closeMinutes = toMinutes(close, 'am');
+    if (closeMinutes <= openMinutes) closeMinutes = toMinutes(close, 'pm');
+  }
+
+  // Spans past midnight ("6p.m.-2a.m.") continue into the next day
+  if (closeMinutes <= openMinutes) closeMinutes += MINUTES_PER_DAY;
+
+  return { open: openMinutes, close: closeMinutes };
+}
+
+function parseWithGrammar(value: string, grammar: HoursGrammar): DayHours | null {
+  if (grammar.closed.test(value)) {
+    return { status: 'closed', intervals: [] };
+  }
+
+  if (grammar.open24.test(value)) {
+    return { status: 'open24', intervals: [{ open: 0, close: MINUTES_PER_DAY }] };
+  }
+
+  const intervals: TimeInterval[] = [];
+
+  for (const part of value.split(grammar.intervalSeparator).filter(Boolean)) {
+    const bounds = part.split(grammar.rangeSeparator);
+    if (bounds.length !== 2) return null;
+
+    const open = parseTimeToken(bounds[0], grammar);
+    const close = parseTimeToken(bounds[1], grammar);
+    if (!open || !close) return null;
+
+    intervals.push(resolveInterval(open, close));
+  }
+
+  if (intervals.length === 0) return null;
+
+  intervals.sort((a, b) => a.open - b.open);
+  return { status: 'open', intervals, raw: value };
+}
+
+/**
+ * Pick the grammar to try first for a store's listings
+ */
+export function getHoursLocale(province: string | undefined): HoursLocale {
+  return getProvinceCode(province || '') === 'QC' ? 'fr' : 'en';
+}
+
+/**
+ * Parse one day's listing, e.g. "10a.m.-5p.m.", "Closed", "Open 24 hours",
+ * "9 h à 17 h", "fermé" or a split shift like "10a.m.-1p.m., 2-6p.m."
+ * The preferred locale's grammar is tried first, then the others.
+ */
+export function parseDayHours(raw: string | undefined, locale: HoursLocale = 'en'): DayHours {
+  const value = (raw || '').trim().replace(DAY_PREFIX, '');
+
+  if (!value) {
+    return { status: 'unknown', intervals: [] };
+  }
+
+  const locales = [locale, ...(Object.keys(HOURS_GRAMMARS) as HoursLocale[]).filter(other => other !== locale)];
+  for (const candidate of locales) {
+    const parsed = parseWithGrammar(value, HOURS_GRAMMARS[candidate]);
+    if (parsed) return parsed;
+  }
+
+  return { status: 'unknown', intervals: [], raw: value };
+}
+
+/**
+ * Build the structured weekly model from the raw per-day strings
+ */
+export function parseOpeningHours(hours: ProcessedBookstore['hours'], locale: HoursLocale = 'en'): OpeningHours {
+  return WEEKDAYS.reduce((week, day) => {
+    week[day] = parseDayHours(hours[day], locale);
+    return week;
+  }, {} as OpeningHours);
+}
@@ -0,0 +1,66 @@
+import overridesData from '../../data/hours-overrides.json';
+import { parseDayHours, type HoursLocale } from './hours';
+import { HoursOverridesFileSchema, type HoursOverride, type HoursOverridesFile } from '../../types/bookstore';
+
+// Longest vacation range we expand, to guard against typos like a wrong year
+const MAX_RANGE_DAYS = 366;
+
+function loadOverridesFile(data: unknown): HoursOverridesFile {
+  const result = HoursOverridesFileSchema.safeParse(data);
+  if (!result.success) {
+    // Fall back to plain weekly hours rather than failing every store page
+    console.warn('Ignoring invalid hours-overrides.json:', result.error.issues);
+    return { version: 1, updated: '', defaults: { closedOnHolidays: [] }, stores: {} };
+  }
+  return result.data;
+}
+
+const overridesFile = loadOverridesFile(overridesData);
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Holidays a store closes on: the default closures with its own opt-ins and
+ * opt-outs applied. Only the ids are kept; their dates are worked out when
+ * the hours are read (see getOverrideOnDate), so they never run out between builds.
+ */
+export function resolveHolidayClosures(
+  placeId: string | undefined,
+  file: HoursOverridesFile = overridesFile
+): string[] {
+  const storeEntry = placeId ? file.stores[placeId] : undefined;
+  const closedOn = new Set(file.defaults.closedOnHolidays);
+  storeEntry?.holidays?.closed.forEach(id => closedOn.add(id));
+  storeEntry?.holidays?.open.forEach(id => closedOn.delete(id));
+  return [...closedOn];
+}
+
+/**
+ * Expand one store's special hours into date-keyed overrides
+ */
+export function resolveHoursOverrides(
+  placeId: string | undefined,
+  locale: HoursLocale = 'en',
+  file: HoursOverridesFile = overridesFile
+): Record<string, HoursOverride> {
+  const overrides: Record<string, HoursOverride> = {};
+  const storeEntry = placeId ? file.stores[placeId] : undefined;
+
+  storeEntry?.specialHours.forEach(entry => {
+    const hours = parseDayHours(entry.hours, locale);
+    if (hours.status === 'unknown') {
+      console.warn(`Unparseable special hours "${entry.hours}" for ${storeEntry.name || placeId}`);
+      return;
+    }
+
+    const [from, to] = 'date' in entry ? [entry.date, entry.date] : [entry.from, entry.to];
+    for (let date = from, count = 0; date <= to && count < MAX_RANGE_DAYS; date = addDays(date, 1), count++) {
+      overrides[date] = { hours, reason: entry.reason, source: 'special' };
+    }
+  });
+
+  return overrides;
+}
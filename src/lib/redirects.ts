@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createCSVDiffEngine } from '../utils/csvDiffEngine';
+import type { ProcessedBookstore, SlugRegistryFile } from '../types/bookstore';
+
+export const REDIRECTS_PATH = path.join(process.cwd(), 'src', 'data', 'redirects.json');
+export const NETLIFY_REDIRECTS_PATH = path.join(process.cwd(), 'public', '_redirects');
+
+export interface StoreRedirect {
+  from: string;
+  to: string;
+  status: 301;
+  storeId: string;
+}
+
+export interface RedirectsFile {
+  version: 1;
+  redirects: StoreRedirect[];
+}
+
+export interface SlugChange {
+  id: string;
+  name: string;
+  from: string;
+  to: string;
+  // Which of name, city and province changed
+  changedFields: string[];
+}
+
+type SlugSnapshot = Pick<ProcessedBookstore, 'id' | 'name' | 'city' | 'province' | 'slug'> & Partial<Pick<ProcessedBookstore, 'addedAt'>>;
+
+export function getStoreUrl(slug: string): string {
+  return `/stores/${slug}/`;
+}
+
+/**
+ * Compare two dataset snapshots store by store (matched on place_id) and list
+ * every store whose slug changed, e.g. after a rename or a move to another city
+ */
+export function detectSlugChanges(previous: SlugSnapshot[], current: SlugSnapshot[]): SlugChange[] {
+  const toRow = (store: SlugSnapshot) => ({
+    place_id: store.id,
+    name: store.name,
+    city: store.city,
+    province: store.province,
+    slug: store.slug
+  });
+
+  const engine = createCSVDiffEngine({
+    keyColumns: ['place_id'],
+    enableMoveDetection: false,
+    filters: { changeTypes: ['modified'] }
+  });
+
+  return engine.compareKeyedRows(previous.map(toRow), current.map(toRow))
+    .filter(change => change.cellChanges.some(cell => cell.column === 'slug'))
+    .map(change => ({
+      id: change.rowId!,
+      name: change.newRow!.name,
+      from: change.oldRow!.slug,
+      to: change.newRow!.slug,
+      changedFields: change.cellChanges.map(cell => cell.column).filter(column => column !== 'slug')
+    }));
+}
+
+/**
+ * Add registry entries for stores the previous dataset published but the
+ * registry never recorded, so their old slugs carry over as history
+ */
+export function seedSlugRegistry(registry: SlugRegistryFile, previous: SlugSnapshot[]): SlugRegistryFile {
+  const stores = { ...registry.stores };
+  previous.forEach(store => {
+    if (!stores[store.id] && store.slug) {
+      stores[store.id] = { name: store.name, slug: store.slug, previous: [], added: store.addedAt || undefined };
+    }
+  });
+  return { ...registry, stores };
+}
+
+/**
+ * One permanent redirect per previous slug, straight to the store's current page
+ */
+export function getStoreRedirects(stores: Array<Pick<ProcessedBookstore, 'id' | 'slug' | 'previousSlugs'>>): StoreRedirect[] {
+  return stores
+    .flatMap(store => store.previousSlugs.map(slug => ({
+      from: getStoreUrl(slug),
+      to: getStoreUrl(store.slug),
+      status: 301 as const,
+      storeId: store.id
+    })))
+    .sort((a, b) => a.from.localeCompare(b.from));
+}
+
+/**
+ * Netlify / Cloudflare Pages `_redirects` format
+ */
+export function formatNetlifyRedirects(redirects: StoreRedirect[]): string {
+  const lines = redirects.flatMap(redirect => [
+    `${redirect.from} ${redirect.to} ${redirect.status}`,
+    // Match the old URL with and without its trailing slash
+    `${redirect.from.replace(/\/$/, '')} ${redirect.to} ${redirect.status}`
+  ]);
+  return ['# Generated by scripts/build-dataset.ts from the slug registry', ...lines].join('\n') + '\n';
+}
+
+/**
+ * Write redirects.json and public/_redirects. Returns false when both were already current.
+ */
+export async function writeRedirects(redirects: StoreRedirect[]): Promise<boolean> {
+  const file: RedirectsFile = { version: 1, redirects };
+  const outputs: Array<[string, string]> = [
+    [REDIRECTS_PATH, JSON.stringify(file, null, 2) + '\n'],
+    [NETLIFY_REDIRECTS_PATH, formatNetlifyRedirects(redirects)]
+  ];
+
+  let changed = false;
+  for (const [outputPath, content] of outputs) {
+    const existing = await fs.readFile(outputPath, 'utf-8').catch(() => '');
+    if (existing === content) continue;
+    await fs.writeFile(outputPath, content);
+    changed = true;
+  }
+  return changed;
+}
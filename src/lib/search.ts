@@ -1,8 +1,19 @@
-import type { ProcessedBookstore } from '../types/bookstore';
-import Fuse from 'fuse.js';
+import type { DayOfWeek, ProcessedBookstore, StoreCategory } from '../types/bookstore';
+import Fuse, { type FuseIndex } from 'fuse.js';
 import type { StoreFilters } from '../components/stores/StoreSearch';
+import { isOpenOnDay, matchesHoursFilter } from '../utils/storeHours';
+import { CANADIAN_PROVINCES, getProvinceCode, normalizeProvince } from '../utils/geographic';
+import { WEEKDAYS } from './processors/hours';
+import { getStoreCoordinates, getStoreIndex, haversineDistance, type GeoPoint } from './geo';
+import { getRatingPrior, sortStores, type StoreSortMode } from './sorting';
+import { includesSearchText, normalizeSearchText } from './normalize';
+import { SEARCH_SYNONYMS, SEARCH_TYPOS } from './synonyms';
+import { CATEGORY_LIST, normalizeCategory } from './categories';
+import { SEARCH_OPTIONS, fetchSearchIndex, type SearchIndexSource } from './searchIndex';
 
 let fuse: Fuse<ProcessedBookstore>;
+// Pending or finished load of the prebuilt index
+let searchReady: Promise<void> | null = null;
 
 // Performance caches
 const weekendStatusCache = new Map<string, boolean>();
@@ -10,63 +21,157 @@ const ratingCache = new Map<string, number>();
 let cachedUserLocation: { lat: number; lng: number; timestamp: number } | null = null;
 const LOCATION_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
-export function initializeSearch(stores: ProcessedBookstore[]) {
+// Synonym rewrites rank just behind matches for what was actually typed
+const SYNONYM_SCORE_PENALTY = 0.1;
+// Fuse scores run from 0 (exact) to 1; past this, matches in long descriptions are noise
+const MAX_MATCH_SCORE = 0.5;
+const MAX_QUERY_VARIANTS = 12;
+
+// Every synonym with its group, longest first so phrases win over their words
+const SYNONYM_TERMS = SEARCH_SYNONYMS
+  .flatMap(group => group.map(term => ({ term, group })))
+  .sort((a, b) => b.term.length - a.term.length);
+
+// Radius choices offered for distance filtering, in kilometres
+export const DISTANCE_OPTIONS = [5, 10, 25, 50, 100];
+
+// Canadian postal code: forward sortation area (FSA), optionally followed by the local delivery unit
+const POSTAL_CODE_PATTERN = /^([A-Z]\d[A-Z])[\s-]*(\d[A-Z]\d)?$/;
+
+/**
+ * Point that distances are measured from: the visitor's device location or a
+ * typed city or postal code resolved against the store data
+ */
+export interface SearchOrigin extends GeoPoint {
+  // Shown next to the distance filter, e.g. "Your location" or "Halifax, Nova Scotia"
+  label: string;
+  source: 'device' | 'place';
+}
+
+export type StoreSearchResult = ProcessedBookstore & {
+  // Kilometres from the search origin, set whenever an origin is known
+  distanceKm?: number;
+};
+
+/**
+ * Index the stores for text search. A prebuilt index from the site build
+ * skips the indexing work; without one the stores are indexed here.
+ */
+export function initializeSearch(stores: ProcessedBookstore[], index?: FuseIndex<ProcessedBookstore>) {
   if (!stores || stores.length === 0) {
     console.warn('initializeSearch called with empty stores array');
     return;
   }
   
-  console.log(`Initializing search with ${stores.length} stores`);
-  
-  const options = {
-    keys: ['name', 'address', 'city', 'province'],
-    threshold: 0.3,
-    includeScore: true,
-  };
+  console.log(`Initializing search with ${stores.length} stores${index ? ' from the prebuilt index' : ''}`);
   
   try {
-    fuse = new Fuse(stores, options);
+    fuse = new Fuse(stores, SEARCH_OPTIONS, index);
     console.log('Fuse search initialized successfully');
-    
-    // Pre-populate caches for better performance
-    stores.forEach(store => {
-      const storeId = store.place_id || store.name;
-      
-      // Cache weekend status
-      if (!weekendStatusCache.has(storeId)) {
-        weekendStatusCache.set(storeId, isOpenWeekends(store));
-      }
-      
-      // Cache rating
-      if (!ratingCache.has(storeId) && store.ratingInfo?.rating) {
-        const rating = store.ratingInfo.rating;
-        if (!isNaN(rating)) {
-          ratingCache.set(storeId, rating);
-        }
-      }
-    });
-    
-    console.log(`Cached data for ${weekendStatusCache.size} stores`);
   } catch (error) {
     console.error('Error initializing search:', error);
   }
 }
 
+/**
+ * Fetch the prebuilt index and set up search with it, once per page. Until it
+ * arrives searchStores waits for it rather than indexing a second time.
+ */
+export function loadSearchIndex(stores: ProcessedBookstore[], source?: SearchIndexSource): Promise<void> {
+  if (!searchReady) {
+    searchReady = (source ? fetchSearchIndex(source, stores) : Promise.resolve(null))
+      .then(index => initializeSearch(stores, index ?? undefined));
+  }
+  return searchReady;
+}
+
+export interface QueryVariant {
+  // Normalized query text
+  text: string;
+  // True for rewrites through the synonym table, false for the typed query
+  // and its typo-corrected form
+  isSynonym: boolean;
+}
+
+/**
+ * The query in normalized form, its typo-corrected form, and rewrites with
+ * each known term swapped for the others in its synonym group, e.g.
+ * "bouquiniste montreal" → "used books montreal", "librairie d occasion montreal"…
+ */
+export function expandSearchQuery(query: string): QueryVariant[] {
+  const typed = normalizeSearchText(query);
+  if (!typed) return [];
+
+  const corrected = typed.split(' ').map(word => SEARCH_TYPOS[word] || word).join(' ');
+  const variants = new Map<string, boolean>([[typed, false], [corrected, false]]);
+
+  // Padded so terms only match whole words; spans already replaced by a
+  // longer term are left alone ("used books" rather than "books")
+  const padded = ` ${corrected} `;
+  const claimed: Array<[number, number]> = [];
+  SYNONYM_TERMS.forEach(({ term, group }) => {
+    const start = padded.indexOf(` ${term} `) + 1;
+    if (start === 0) return;
+    const end = start + term.length;
+    if (claimed.some(([from, to]) => start < to && end > from)) return;
+    claimed.push([start, end]);
+
+    group.forEach(synonym => {
+      const text = `${padded.slice(0, start)}${synonym}${padded.slice(end)}`.trim();
+      if (!variants.has(text)) variants.set(text, true);
+    });
+  });
+
+  return [...variants.entries()]
+    .slice(0, MAX_QUERY_VARIANTS)
+    .map(([text, isSynonym]) => ({ text, isSynonym }));
+}
+
+/**
+ * Run the query and its expansions through Fuse, keeping each store's best
+ * score. Stores come back best match first.
+ */
+function fuseSearch(query: string): ProcessedBookstore[] {
+  const scores = new Map<ProcessedBookstore, number>();
+  expandSearchQuery(query).forEach(({ text, isSynonym }) => {
+    const penalty = isSynonym ? SYNONYM_SCORE_PENALTY : 0;
+    fuse.search(text).forEach(({ item, score = 0 }) => {
+      const total = score + penalty;
+      const current = scores.get(item);
+      if (total <= MAX_MATCH_SCORE && (current === undefined || total < current)) {
+        scores.set(item, total);
+      }
+    });
+  });
+  return [...scores.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .map(([store]) => store);
+}
+
+/**
+ * Substring match on the given fields for any expansion of the query, used
+ * when Fuse is unavailable
+ */
+function matchesQueryText(fields: Array<string | undefined>, query: string): boolean {
+  const variants = expandSearchQuery(query);
+  return fields.some(field => variants.some(({ text }) => includesSearchText(field, text)));
+}
+
 export function getSearchSuggestions(stores: ProcessedBookstore[], query: string): string[] {
-  if (!query) return [];
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) return [];
   
   if (!fuse) {
     console.warn('Fuse not initialized, falling back to simple search for suggestions');
     return stores
-      .filter(store => store.name.toLowerCase().includes(query.toLowerCase()))
+      .filter(store => matchesQueryText([store.name], normalizedQuery))
       .slice(0, 5)
       .map(store => store.name);
   }
   
-  const results = fuse.search(query);
-  return results
+  return fuseSearch(normalizedQuery)
     .slice(0, 5)
-    .map(result => result.item.name);
+    .map(store => store.name);
 }
 
 // Simple search function for map view (text search only)
@@ -84,7 +189,8 @@ export async function searchStoresText(stores: ProcessedBookstore[], query: stri
     return stores;
   }
   
-  // Ensure fuse is initialized
+  // Ensure fuse is initialized, preferring a prebuilt index on its way
+  if (searchReady) await searchReady;
   if (!fuse) {
     console.log('Fuse not initialized, initializing now...');
     initializeSearch(stores);
@@ -95,14 +201,11 @@ export async function searchStoresText(stores: ProcessedBookstore[], query: stri
   
   if (!fuse) {
     console.error('Fuse search not available, falling back to simple filter');
-    results = stores.filter(store => 
-      store.name.toLowerCase().includes(query.toLowerCase()) ||
-      store.city.toLowerCase().includes(query.toLowerCase()) ||
-      store.province.toLowerCase().includes(query.toLowerCase()) ||
-      store.address.toLowerCase().includes(query.toLowerCase())
+    results = stores.filter(store =>
+      matchesQueryText([store.name, store.city, store.province, store.address, store.description], query)
     );
   } else {
-    results = fuse.search(query).map(result => result.item);
+    results = fuseSearch(query);
   }
   
   console.log(`Text search for "${query}" returned ${results.length} results`);
@@ -131,9 +234,7 @@ function isOpenWeekends(store: ProcessedBookstore): boolean {
   }
   
   // Calculate and cache result
-  const satHours = store.hours.saturday;
-  const sunHours = store.hours.sunday;
-  const isOpen = Boolean((satHours && satHours !== 'Closed') || (sunHours && sunHours !== 'Closed'));
+  const isOpen = isOpenOnDay(store.openingHours, 'saturday') || isOpenOnDay(store.openingHours, 'sunday');
   
   weekendStatusCache.set(storeId, isOpen);
   return isOpen;
@@ -157,7 +258,7 @@ function getCachedRating(store: ProcessedBookstore): number {
   return 0;
 }
 
-async function getCachedLocation(): Promise<{ lat: number; lng: number } | null> {
+export async function getCachedLocation(): Promise<{ lat: number; lng: number } | null> {
   // Check if cached location is still valid
   if (cachedUserLocation && (Date.now() - cachedUserLocation.timestamp) < LOCATION_CACHE_DURATION) {
     console.log('💾 Using cached user location:', cachedUserLocation);
@@ -165,7 +266,7 @@ async function getCachedLocation(): Promise<{ lat: number; lng: number } | null>
   }
   
   // Get fresh location
-  if (!navigator.geolocation) {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
     console.log('❌ Geolocation not supported');
     return null;
   }
@@ -198,19 +299,368 @@ async function getCachedLocation(): Promise<{ lat: number; lng: number } | null>
   }
 }
 
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
+function centroidOrigin(stores: ProcessedBookstore[], label: string): SearchOrigin | null {
+  const points = stores
+    .map(getStoreCoordinates)
+    .filter((point): point is GeoPoint => point !== null);
+  if (points.length === 0) return null;
+
+  return {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+    label,
+    source: 'place'
+  };
+}
+
+/**
+ * Resolve a typed city ("Halifax", "Windsor, ON") or postal code ("B3H 1A1",
+ * "B3H") to a search origin. There is no geocoder, so places are located from
+ * the stores themselves: a city resolves to the centre of its stores and a
+ * postal code to the centre of the stores sharing it, or its FSA. Returns null
+ * when no store is in that city or postal area.
+ */
+export function resolveLocationQuery(stores: ProcessedBookstore[], query: string): SearchOrigin | null {
+  const text = query.trim();
+  if (!text) return null;
+
+  const postalCode = text.toUpperCase().match(POSTAL_CODE_PATTERN);
+  if (postalCode) {
+    const [, fsa, ldu] = postalCode;
+    const storeCode = (store: ProcessedBookstore) => store.zip.toUpperCase().replace(/[\s-]+/g, '');
+    const exact = ldu ? stores.filter(store => storeCode(store) === fsa + ldu) : [];
+    if (exact.length > 0) return centroidOrigin(exact, `${fsa} ${ldu}`);
+    return centroidOrigin(stores.filter(store => storeCode(store).startsWith(fsa)), fsa);
+  }
+
+  const [cityPart, provincePart] = text.split(',').map(part => part.trim());
+  const city = normalizeSearchText(cityPart);
+  // Province codes are matched case-insensitively ("ns", "NS")
+  const province = provincePart
+    ? normalizeSearchText(normalizeProvince(provincePart.length === 2 ? provincePart.toUpperCase() : provincePart))
+    : '';
+  const inProvince = province
+    ? stores.filter(store => normalizeSearchText(normalizeProvince(store.province)) === province)
+    : stores;
+  // Exact city name first, then names it begins ("Quebec" for "Québec City")
+  let inCity = inProvince.filter(store => normalizeSearchText(store.city) === city);
+  if (inCity.length === 0) {
+    inCity = inProvince.filter(store => normalizeSearchText(store.city).startsWith(`${city} `));
+  }
+  if (inCity.length === 0) return null;
+
+  // A name shared by several places (Windsor ON and NS, "Saint" for every Saint-…) resolves to the one with the most stores
+  const places = new Map<string, ProcessedBookstore[]>();
+  inCity.forEach(store => {
+    const key = `${store.city}, ${normalizeProvince(store.province)}`;
+    places.set(key, [...(places.get(key) || []), store]);
+  });
+  const [label, placeStores] = [...places.entries()].sort((a, b) => b[1].length - a[1].length)[0];
+  return centroidOrigin(placeStores, label);
+}
+
+/**
+ * Distance in kilometres for display, e.g. "850 m", "3.2 km", "48 km"
+ */
+export function formatDistance(distanceKm: number): string {
+  if (distanceKm < 1) return `${Math.round(distanceKm * 1000)} m`;
+  if (distanceKm < 10) return `${distanceKm.toFixed(1)} km`;
+  return `${Math.round(distanceKm)} km`;
+}
+
+export type QueryField = 'city' | 'province' | 'type' | 'rating' | 'open' | 'has' | 'near' | 'within';
+
+export interface QueryFieldInfo {
+  field: QueryField;
+  description: string;
+  example: string;
+}
+
+/**
+ * Qualifiers understood in the search box, e.g.
+ * `city:halifax rating:>4 open:sunday antiquarian`
+ */
+export const QUERY_FIELDS: QueryFieldInfo[] = [
+  { field: 'city', description: 'Stores in a city', example: 'city:halifax' },
+  { field: 'province', description: 'Stores in a province or territory', example: 'province:ns' },
+  { field: 'type', description: 'Kind of store', example: 'type:rare' },
+  { field: 'rating', description: 'Minimum Google rating', example: 'rating:>4' },
+  { field: 'open', description: 'Open now, late, on weekends or on a day', example: 'open:sunday' },
+  { field: 'has', description: 'Stores with a website', example: 'has:website' },
+  { field: 'near', description: 'Measure distance from a city or postal code', example: 'near:"B3H 1A1"' },
+  { field: 'within', description: 'Kilometres from the near: location', example: 'within:25' }
+];
+
+const QUERY_FIELD_ALIASES: Record<string, QueryField> = {
+  prov: 'province',
+  category: 'type',
+  cat: 'type',
+  stars: 'rating'
+};
+
+export interface QueryError {
+  // The qualifier as typed, e.g. "rating:abc"
+  token: string;
+  message: string;
+}
+
+// Qualifiers narrow by city too, which has no control of its own
+export type QueryFilters = Partial<StoreFilters> & { city?: string };
+
+export interface ParsedSearchQuery {
+  // Free text left once the qualifiers are taken out
+  text: string;
+  // Qualifiers as typed, for rebuilding the query around new free text
+  qualifiers: string[];
+  filters: QueryFilters;
+  errors: QueryError[];
 }
 
-export async function searchStores(stores: ProcessedBookstore[], query: string, filters: StoreFilters): Promise<ProcessedBookstore[]> {
+export interface QueryCompletion {
+  // What the suggestion list shows, e.g. "city:Halifax"
+  label: string;
+  detail?: string;
+  // The whole query once the completion is picked
+  query: string;
+}
+
+// `field:value`, `field:"quoted value"`, a quoted phrase, or a bare word
+const QUERY_TOKEN_PATTERN = /([a-z]+):("[^"]*"?|\S*)|"[^"]*"?|\S+/gi;
+// Qualifier being typed at the end of the query
+const TRAILING_QUALIFIER_PATTERN = /(?:^|\s)([a-z]+):("[^"]*|\S*)$/i;
+const RATING_PATTERN = /^(>=|>|=)?(\d(?:\.\d+)?)$/;
+// "Open late" means still open after 6 PM, the earliest Open Late choice
+const OPEN_LATE_MINUTES = 18 * 60;
+const MAX_COMPLETIONS = 6;
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '');
+const quote = (value: string) => /\s/.test(value) ? `"${value}"` : value;
+
+function findQueryField(name: string): QueryField | null {
+  const key = name.toLowerCase();
+  return QUERY_FIELDS.find(info => info.field === key)?.field || QUERY_FIELD_ALIASES[key] || null;
+}
+
+function findProvince(value: string): string | null {
+  const text = normalizeSearchText(value);
+  return CANADIAN_PROVINCES.find(province =>
+    normalizeSearchText(province) === text || getProvinceCode(province).toLowerCase() === text
+  ) || null;
+}
+
+function findDay(value: string): DayOfWeek | null {
+  const text = value.toLowerCase();
+  return text.length >= 3 ? WEEKDAYS.find(day => day.startsWith(text)) || null : null;
+}
+
+function findCategory(value: string): StoreCategory | null {
+  const text = normalizeSearchText(value);
+  const category = CATEGORY_LIST.find(info =>
+    info.id === text || normalizeSearchText(info.slug) === text || normalizeSearchText(info.label) === text
+  );
+  if (category) return category.id;
+  // Fall back to the scraper aliases ("antique", "bande dessinee"), where "other" means no match
+  const alias = normalizeCategory(text);
+  return alias === 'other' ? null : alias;
+}
+
+/**
+ * Filters for one qualifier, or an error message when its value is malformed
+ */
+function parseQualifier(
+  field: QueryField,
+  value: string,
+  stores: ProcessedBookstore[]
+): QueryFilters | string {
+  switch (field) {
+    case 'city':
+      return { city: value };
+    case 'province': {
+      const province = findProvince(value);
+      return province ? { province } : `Unknown province "${value}". Use a name or code, e.g. province:ns`;
+    }
+    case 'type': {
+      const category = findCategory(value);
+      return category
+        ? { category }
+        : `Unknown store type "${value}". Try ${CATEGORY_LIST.map(info => info.id).join(', ')}`;
+    }
+    case 'rating': {
+      const match = value.match(RATING_PATTERN);
+      const rating = match ? Number(match[2]) : NaN;
+      if (!match || rating > 5) return 'Rating takes a number from 0 to 5, e.g. rating:4 or rating:>4';
+      // Ratings have one decimal place, so "above 4" starts at 4.1 and
+      // "above 4.25" at 4.3
+      const minRating = match[1] === '>' ? (Math.floor(rating * 10 + 1e-9) + 1) / 10 : rating;
+      return minRating > 5 ? 'No rating is above 5. Try rating:5 for top-rated stores' : { minRating };
+    }
+    case 'open': {
+      const text = value.toLowerCase();
+      if (text === 'now') return { openNow: true };
+      if (text === 'late') return { openAfter: OPEN_LATE_MINUTES };
+      if (text === 'weekend' || text === 'weekends') return { openWeekends: true };
+      const day = findDay(text);
+      return day ? { openOnDay: day } : 'Open takes now, late, weekends or a day, e.g. open:sunday';
+    }
+    case 'has':
+      return ['website', 'site', 'web'].includes(value.toLowerCase())
+        ? { hasWebsite: true }
+        : 'Has only supports has:website';
+    case 'near': {
+      const origin = resolveLocationQuery(stores, value);
+      return origin ? { origin } : `No bookstores listed in "${value}". Try a nearby city or postal code`;
+    }
+    case 'within': {
+      const distance = Number(value.replace(/km$/i, ''));
+      return distance > 0 ? { maxDistance: distance } : 'Within takes a distance in kilometres, e.g. within:25';
+    }
+  }
+}
+
+/**
+ * Split a search box query into free text and `field:value` qualifiers mapped
+ * onto StoreFilters. Qualifiers with no value yet (still being typed) are
+ * skipped quietly; unknown fields stay in the free text, with a hint, so a
+ * colon in a store name still searches. A distance measures from near:, or
+ * else from the origin already set outside the query.
+ */
+export function parseSearchQuery(
+  query: string,
+  stores: ProcessedBookstore[],
+  origin: SearchOrigin | null = null
+): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: '', qualifiers: [], filters: {}, errors: [] };
+  const words: string[] = [];
+  let withinToken: string | null = null;
+  let hasNear = false;
+
+  for (const [token, name, rawValue] of query.matchAll(QUERY_TOKEN_PATTERN)) {
+    if (name === undefined) {
+      words.push(unquote(token));
+      continue;
+    }
+
+    const field = findQueryField(name);
+    if (!field) {
+      words.push(token);
+      parsed.errors.push({
+        token,
+        message: `Unknown field "${name}". Try ${QUERY_FIELDS.map(info => `${info.field}:`).join(' ')}`
+      });
+      continue;
+    }
+
+    parsed.qualifiers.push(token);
+    const value = unquote(rawValue).trim();
+    if (!value) continue;
+
+    if (field === 'near') hasNear = true;
+    if (field === 'within') withinToken = token;
+    const result = parseQualifier(field, value, stores);
+    if (typeof result === 'string') {
+      parsed.errors.push({ token, message: result });
+    } else {
+      Object.assign(parsed.filters, result);
+    }
+  }
+
+  // A near: that failed has already said so
+  if (withinToken && !hasNear && !origin) {
+    parsed.errors.push({ token: withinToken, message: 'Within needs a place to measure from, e.g. near:halifax within:25' });
+  }
+  if (!parsed.filters.origin && !origin) delete parsed.filters.maxDistance;
+
+  parsed.text = words.join(' ');
+  return parsed;
+}
+
+/**
+ * Rebuild a query with new free text, keeping its qualifiers
+ */
+export function replaceQueryText(query: string, text: string, stores: ProcessedBookstore[]): string {
+  return [...parseSearchQuery(query, stores).qualifiers, text].join(' ').trim();
+}
+
+function getValueCompletions(field: QueryField, stores: ProcessedBookstore[]): Array<{ value: string; detail?: string }> {
+  switch (field) {
+    case 'city':
+    case 'near': {
+      const counts = new Map<string, number>();
+      stores.forEach(store => counts.set(store.city, (counts.get(store.city) || 0) + 1));
+      return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([city, count]) => ({ value: city, detail: `${count} store${count === 1 ? '' : 's'}` }));
+    }
+    case 'province':
+      return CANADIAN_PROVINCES.map(province => ({
+        value: getProvinceCode(province).toLowerCase(),
+        detail: province
+      }));
+    case 'type':
+      return CATEGORY_LIST.map(info => ({ value: info.id, detail: info.pluralLabel }));
+    case 'rating':
+      return [
+        { value: '>4', detail: 'Above 4 stars' },
+        { value: '4.5', detail: '4.5 stars or more' },
+        { value: '4', detail: '4 stars or more' },
+        { value: '3', detail: '3 stars or more' }
+      ];
+    case 'open':
+      return [
+        { value: 'now', detail: 'Open right now' },
+        { value: 'late', detail: 'Open after 6 PM' },
+        { value: 'weekends', detail: 'Open Saturday or Sunday' },
+        ...WEEKDAYS.map(day => ({ value: day }))
+      ];
+    case 'has':
+      return [{ value: 'website' }];
+    case 'within':
+      return DISTANCE_OPTIONS.map(distance => ({ value: String(distance), detail: `${distance} km` }));
+  }
+}
+
+/**
+ * Completions for the qualifier being typed at the end of the query: field
+ * names for a partial word ("ra" → "rating:"), values after the colon
+ * ("city:hal" → "city:Halifax"). Empty when the end of the query is plain text.
+ */
+export function getQueryCompletions(stores: ProcessedBookstore[], query: string): QueryCompletion[] {
+  const qualifier = query.match(TRAILING_QUALIFIER_PATTERN);
+  if (qualifier) {
+    const field = findQueryField(qualifier[1]);
+    if (!field) return [];
+    const before = query.slice(0, query.length - qualifier[0].length + (qualifier[0].match(/^\s/) ? 1 : 0));
+    const typed = normalizeSearchText(unquote(qualifier[2]));
+
+    return getValueCompletions(field, stores)
+      .filter(({ value, detail }) =>
+        normalizeSearchText(value).startsWith(typed) || (detail && normalizeSearchText(detail).startsWith(typed))
+      )
+      // A finished value has nothing left to complete
+      .filter(({ value }) => `${field}:${quote(value)}` !== qualifier[0].trim())
+      .slice(0, MAX_COMPLETIONS)
+      .map(({ value, detail }) => ({
+        label: `${field}:${quote(value)}`,
+        detail,
+        query: `${before}${field}:${quote(value)} `
+      }));
+  }
+
+  // Field names once a word is long enough to mean something
+  const word = query.match(/(?:^|\s)([a-z]{2,})$/i)?.[1].toLowerCase();
+  if (!word) return [];
+  const before = query.slice(0, query.length - word.length);
+  return QUERY_FIELDS
+    .filter(info => info.field.startsWith(word) && info.field !== word)
+    .map(info => ({ label: `${info.field}:`, detail: `${info.description}, e.g. ${info.example}`, query: `${before}${info.field}:` }));
+}
+
+export async function searchStores(
+  stores: ProcessedBookstore[],
+  query: string,
+  filters: StoreFilters,
+  sortBy: StoreSortMode = 'relevance'
+): Promise<StoreSearchResult[]> {
   console.log(`searchStores called with ${stores.length} stores, query: "${query}", filters:`, filters);
   
   if (!stores || stores.length === 0) {
@@ -218,27 +668,31 @@ export async function searchStores(stores: ProcessedBookstore[], query: string,
     return [];
   }
   
-  // Ensure fuse is initialized only once per session
+  // A prebuilt index on its way is worth waiting for; otherwise index here
+  if (searchReady && query?.trim()) await searchReady;
   if (!fuse) {
     console.log('Fuse not initialized, initializing now...');
     initializeSearch(stores);
   }
-  
-  // Distance filtering removed - simpler approach with city-level zoom
+
+  // Qualifiers typed in the query take precedence over the filter controls
+  const parsed = parseSearchQuery(query || '', stores, filters.origin);
+  const { city, ...queryFilters } = parsed.filters;
+  filters = { ...filters, ...queryFilters };
+  const normalizedCity = city ? normalizeSearchText(city) : '';
 
   // Start with all stores or search results
   let results: ProcessedBookstore[];
   
-  if (query && query.trim()) {
+  const normalizedQuery = normalizeSearchText(parsed.text);
+  if (normalizedQuery) {
     if (!fuse) {
       console.error('Fuse search not available, falling back to simple filter');
-      results = stores.filter(store => 
-        store.name.toLowerCase().includes(query.toLowerCase()) ||
-        store.city.toLowerCase().includes(query.toLowerCase()) ||
-        store.province.toLowerCase().includes(query.toLowerCase())
+      results = stores.filter(store =>
+        matchesQueryText([store.name, store.city, store.province, store.description], normalizedQuery)
       );
     } else {
-      results = fuse.search(query).map(result => result.item);
+      results = fuseSearch(normalizedQuery);
     }
     console.log(`Text search for "${query}" returned ${results.length} results`);
   } else {
@@ -246,8 +700,22 @@ export async function searchStores(stores: ProcessedBookstore[], query: string,
     console.log(`No text search, starting with all ${results.length} stores`);
   }
 
+  // Annotate with the distance from the origin, when there is one. A radius
+  // comes straight from the spatial index instead of measuring every store.
+  const { origin } = filters;
+  const withinRadius = origin && filters.maxDistance !== null
+    ? new Map(getStoreIndex(stores).withinRadius(origin, filters.maxDistance).map(({ item, distanceKm }) => [item.id, distanceKm]))
+    : null;
+  const annotated: StoreSearchResult[] = results.map(store => {
+    if (!origin) return store;
+    if (withinRadius) return { ...store, distanceKm: withinRadius.get(store.id) };
+    const point = getStoreCoordinates(store);
+    return point ? { ...store, distanceKm: haversineDistance(origin, point) } : store;
+  });
+
   // Apply filters with optimized functions
-  const filteredResults = results.filter(store => {
+  const now = new Date();
+  const filteredResults = annotated.filter(store => {
     // Validate store has required fields
     if (!store.lat || !store.lng || !store.name) {
       console.warn('Store missing required fields:', store);
@@ -263,19 +731,39 @@ export async function searchStores(stores: ProcessedBookstore[], query: string,
       if (rating < filters.minRating) return false;
     }
 
-    // Province filter
-    if (filters.province && store.province !== filters.province) return false;
+    // Province filter; some stores list theirs by code ("ON")
+    if (filters.province && normalizeProvince(store.province) !== normalizeProvince(filters.province)) return false;
+
+    // City qualifier: whole words, so "city:quebec" finds Québec City but
+    // "city:saint john" doesn't also find St. John's
+    if (normalizedCity) {
+      const storeCity = normalizeSearchText(store.city);
+      if (storeCity !== normalizedCity && !storeCity.startsWith(`${normalizedCity} `)) return false;
+    }
 
-    // Distance filtering removed - users can manually zoom to explore areas
+    // Category facet
+    if (filters.category && store.category !== filters.category) return false;
+
+    // Radius filter, only meaningful once an origin is set
+    if (origin && filters.maxDistance !== null) {
+      if (store.distanceKm === undefined || store.distanceKm > filters.maxDistance) return false;
+    }
 
     // Hours filters with cached results
     if (filters.openWeekends && !isOpenWeekends(store)) return false;
 
+    // Open now / late / on a day / at a time, on the store's own clock
+    if (!matchesHoursFilter(store, filters, now)) return false;
+
     return true;
   });
 
   console.log(`After filtering: ${filteredResults.length} stores remaining`);
-  return filteredResults;
+
+  // Without an origin there is nothing to measure distance from; keep relevance order.
+  // Bayesian ratings are weighed against the whole dataset, not just the matches.
+  const sortMode = sortBy === 'distance' && !origin ? 'relevance' : sortBy;
+  return sortStores(filteredResults, sortMode, getRatingPrior(stores));
 }
 
 // Utility function to clear caches if needed
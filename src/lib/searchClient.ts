@@ -0,0 +1,140 @@
+import type { ProcessedBookstore } from '../types/bookstore';
+import type { StoreFilters } from '../components/stores/StoreSearch';
+import type { StoreSortMode } from './sorting';
+import type { SearchIndexSource } from './searchIndex';
+import { loadSearchIndex, searchStores, type StoreSearchResult } from './search';
+
+export interface StoreSearchRequest {
+  query: string;
+  filters: StoreFilters;
+  sortBy: StoreSortMode;
+}
+
+// A result as it crosses from the worker: the store is looked up again on
+// this side rather than copying every record back
+export interface StoreSearchMatch {
+  id: string;
+  distanceKm?: number;
+}
+
+export type SearchWorkerRequest =
+  | { type: 'init'; stores: ProcessedBookstore[]; searchIndex?: SearchIndexSource }
+  | { type: 'search'; id: number; request: StoreSearchRequest }
+  | { type: 'cancel'; id: number };
+
+export type SearchWorkerResponse =
+  | { type: 'results'; id: number; matches: StoreSearchMatch[] }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Store search running off the main thread. Each search can be cancelled
+ * with an AbortSignal; a cancelled search rejects with an AbortError and its
+ * results, if the worker was already busy with it, are dropped.
+ */
+export interface StoreSearchClient {
+  search(request: StoreSearchRequest, signal?: AbortSignal): Promise<StoreSearchResult[]>;
+  dispose(): void;
+}
+
+const abortError = () => new DOMException('Search cancelled', 'AbortError');
+
+/**
+ * Search on the main thread, for browsers without module workers and for
+ * pages where the worker failed to start
+ */
+function createMainThreadClient(stores: ProcessedBookstore[], searchIndex?: SearchIndexSource): StoreSearchClient {
+  return {
+    async search(request, signal) {
+      if (request.query.trim()) loadSearchIndex(stores, searchIndex);
+      const results = await searchStores(stores, request.query, request.filters, request.sortBy);
+      if (signal?.aborted) throw abortError();
+      return results;
+    },
+    dispose() {}
+  };
+}
+
+/**
+ * Start a search worker for the stores. Falls back to searching on the main
+ * thread when workers are unavailable or the worker fails.
+ */
+export function createStoreSearchClient(
+  stores: ProcessedBookstore[],
+  searchIndex?: SearchIndexSource
+): StoreSearchClient {
+  if (typeof Worker === 'undefined') {
+    return createMainThreadClient(stores, searchIndex);
+  }
+
+  let worker: Worker | null = new Worker(new URL('./searchWorker.ts', import.meta.url), { type: 'module' });
+  let fallback: StoreSearchClient | null = null;
+  let nextId = 1;
+  const pending = new Map<number, {
+    request: StoreSearchRequest;
+    signal?: AbortSignal;
+    resolve: (results: StoreSearchResult[]) => void;
+    reject: (error: Error) => void;
+  }>();
+  const storesById = new Map(stores.map(store => [store.id, store]));
+
+  const post = (message: SearchWorkerRequest) => worker?.postMessage(message);
+
+  const toResults = (matches: StoreSearchMatch[]): StoreSearchResult[] =>
+    matches.flatMap(({ id: storeId, distanceKm }) => {
+      const store = storesById.get(storeId);
+      if (!store) return [];
+      return distanceKm === undefined ? [store] : [{ ...store, distanceKm }];
+    });
+
+  worker.addEventListener('message', (event: MessageEvent<SearchWorkerResponse>) => {
+    const response = event.data;
+    const entry = pending.get(response.id);
+    if (!entry) return;
+    pending.delete(response.id);
+    if (response.type === 'results') {
+      entry.resolve(toResults(response.matches));
+    } else {
+      entry.reject(new Error(response.message));
+    }
+  });
+
+  // A worker that can't load (blocked script, old browser) is replaced by
+  // the main thread so search keeps working, including the searches it had
+  worker.addEventListener('error', event => {
+    console.error('Search worker failed, searching on the main thread:', event.message);
+    worker?.terminate();
+    worker = null;
+    const mainThread = createMainThreadClient(stores, searchIndex);
+    fallback = mainThread;
+    const waiting = [...pending.values()];
+    pending.clear();
+    waiting.forEach(({ request, signal, resolve, reject }) => mainThread.search(request, signal).then(resolve, reject));
+  });
+
+  post({ type: 'init', stores, searchIndex });
+
+  return {
+    async search(request, signal) {
+      if (fallback) return fallback.search(request, signal);
+      if (signal?.aborted) throw abortError();
+
+      const id = nextId++;
+      return new Promise<StoreSearchResult[]>((resolve, reject) => {
+        pending.set(id, { request, signal, resolve, reject });
+        signal?.addEventListener('abort', () => {
+          if (!pending.delete(id)) return;
+          post({ type: 'cancel', id });
+          reject(abortError());
+        }, { once: true });
+        post({ type: 'search', id, request });
+      });
+    },
+    dispose() {
+      worker?.terminate();
+      worker = null;
+      const waiting = [...pending.values()];
+      pending.clear();
+      waiting.forEach(({ reject }) => reject(abortError()));
+    }
+  };
+}
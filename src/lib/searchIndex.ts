@@ -0,0 +1,112 @@
+import Fuse, { type FuseGetFunction, type FuseIndex, type FuseIndexRecords, type IFuseOptions } from 'fuse.js';
+import type { ProcessedBookstore } from '../types/bookstore';
+import { normalizeSearchText } from './normalize';
+import { STORE_CATEGORIES } from './categories';
+
+/**
+ * Version of the serialized index format. Bump it whenever the keys or the
+ * text folding below change, so indexes built by an older release are refused.
+ */
+export const SEARCH_INDEX_VERSION = 1;
+
+/**
+ * Where the prebuilt index for a dataset is published. The file name carries
+ * the hash of its content, so it can be cached forever.
+ */
+export interface SearchIndexSource {
+  url: string;
+  // Content hash of the dataset the index was built from
+  datasetHash: string;
+}
+
+export interface SerializedSearchIndex {
+  version: number;
+  datasetHash: string;
+  // Number of stores indexed; records refer to stores by position
+  count: number;
+  keys: ReadonlyArray<string>;
+  records: FuseIndexRecords;
+}
+
+// Index folded text; queries are folded the same way before searching
+const getSearchText: FuseGetFunction<ProcessedBookstore> = (store, path) => {
+  const value = Fuse.config.getFn(store, path);
+  return typeof value === 'string' ? normalizeSearchText(value) : (value ?? []).map(normalizeSearchText);
+};
+
+export const SEARCH_OPTIONS: IFuseOptions<ProcessedBookstore> = {
+  // Name counts most; description and category let "rare books" or
+  // "bouquiniste" find shops that don't say so in their name
+  keys: [
+    { name: 'name', weight: 3 },
+    { name: 'city', weight: 2 },
+    { name: 'address', weight: 1 },
+    { name: 'province', weight: 1 },
+    {
+      name: 'category',
+      weight: 0.75,
+      getFn: (store: ProcessedBookstore) => normalizeSearchText(STORE_CATEGORIES[store.category]?.label || '')
+    },
+    { name: 'description', weight: 0.5 }
+  ],
+  threshold: 0.3,
+  // Descriptions are long; match anywhere in them, not just near the start
+  ignoreLocation: true,
+  includeScore: true,
+  getFn: getSearchText
+};
+
+/**
+ * Build the index at site build time, ready to be written out as JSON
+ */
+export function serializeSearchIndex(stores: ProcessedBookstore[], datasetHash: string): SerializedSearchIndex {
+  const index = Fuse.createIndex(SEARCH_OPTIONS.keys!, stores, { getFn: getSearchText });
+  const { keys, records } = index.toJSON();
+  return { version: SEARCH_INDEX_VERSION, datasetHash, count: stores.length, keys, records };
+}
+
+/**
+ * Check that a downloaded index was built from exactly these stores by this
+ * release. Anything else would point records at the wrong stores.
+ */
+export function isSearchIndexFor(
+  data: unknown,
+  stores: ProcessedBookstore[],
+  datasetHash: string
+): data is SerializedSearchIndex {
+  const index = data as SerializedSearchIndex;
+  return (
+    typeof index === 'object' &&
+    index !== null &&
+    index.version === SEARCH_INDEX_VERSION &&
+    index.datasetHash === datasetHash &&
+    index.count === stores.length &&
+    Array.isArray(index.records)
+  );
+}
+
+/**
+ * Download and parse the prebuilt index. Resolves to null when it is missing,
+ * unreadable or stale, in which case the caller indexes in the browser.
+ */
+export async function fetchSearchIndex(
+  source: SearchIndexSource,
+  stores: ProcessedBookstore[]
+): Promise<FuseIndex<ProcessedBookstore> | null> {
+  try {
+    const response = await fetch(source.url);
+    if (!response.ok) {
+      console.warn(`Search index request failed with status ${response.status}`);
+      return null;
+    }
+    const data: unknown = await response.json();
+    if (!isSearchIndexFor(data, stores, source.datasetHash)) {
+      console.warn('Search index does not match the store data, indexing in the browser');
+      return null;
+    }
+    return Fuse.parseIndex<ProcessedBookstore>(data, { getFn: getSearchText });
+  } catch (error) {
+    console.warn('Could not load the search index:', error);
+    return null;
+  }
+}
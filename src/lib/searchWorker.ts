@@ -0,0 +1,56 @@
+import type { ProcessedBookstore } from '../types/bookstore';
+import type { SearchIndexSource } from './searchIndex';
+import type { SearchWorkerRequest, SearchWorkerResponse } from './searchClient';
+import { loadSearchIndex, searchStores } from './search';
+
+/**
+ * Worker side of createStoreSearchClient: text matching, filtering, distance
+ * and sorting for the stores it was started with
+ */
+
+let stores: ProcessedBookstore[] = [];
+let searchIndex: SearchIndexSource | undefined;
+// Searches still running, and those of them cancelled since they started
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+const reply = (response: SearchWorkerResponse) => self.postMessage(response);
+
+self.addEventListener('message', async (event: MessageEvent<SearchWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      stores = message.stores;
+      searchIndex = message.searchIndex;
+      break;
+
+    case 'cancel':
+      // A cancel that crossed with the results has nothing left to stop
+      if (running.has(message.id)) cancelled.add(message.id);
+      break;
+
+    case 'search': {
+      const { id, request } = message;
+      running.add(id);
+      try {
+        // The index is only worth fetching once there is text to match
+        if (request.query.trim()) loadSearchIndex(stores, searchIndex);
+        const results = await searchStores(stores, request.query, request.filters, request.sortBy);
+        if (cancelled.delete(id)) return;
+        reply({
+          type: 'results',
+          id,
+          matches: results.map(({ id: storeId, distanceKm }) => ({ id: storeId, distanceKm }))
+        });
+      } catch (error) {
+        if (cancelled.delete(id)) return;
+        reply({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        running.delete(id);
+        cancelled.delete(id);
+      }
+      break;
+    }
+  }
+});
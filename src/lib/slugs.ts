@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { hashString } from '../utils/slugify';
+import { SlugRegistryFileSchema, type ProcessedBookstore, type SlugRegistryFile } from '../types/bookstore';
+
+export const SLUG_REGISTRY_PATH = path.join(process.cwd(), 'src', 'data', 'slug-registry.json');
+
+export interface SlugClash {
+  // The slug more than one store wanted
+  slug: string;
+  stores: Array<{ id: string; name: string; slug: string }>;
+}
+
+export interface SlugAssignment {
+  // Final slug, slug history and first-seen date (when known) per store ID
+  slugs: Map<string, { slug: string; previous: string[]; added?: string }>;
+  registry: SlugRegistryFile;
+  // Collisions the registry did not already record a resolution for
+  clashes: SlugClash[];
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function emptyRegistry(): SlugRegistryFile {
+  return { version: 1, updated: today(), stores: {} };
+}
+
+/**
+ * Read the slug registry. A missing file is an empty registry; an invalid one
+ * throws, since reissuing slugs from scratch would break published links.
+ */
+export async function readSlugRegistry(registryPath: string = SLUG_REGISTRY_PATH): Promise<SlugRegistryFile> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(registryPath, 'utf-8');
+  } catch {
+    return emptyRegistry();
+  }
+
+  const result = SlugRegistryFileSchema.safeParse(JSON.parse(raw));
+  if (!result.success) {
+    throw new Error(`Invalid slug registry ${registryPath}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Write the registry, skipping the write when no entry changed
+ */
+export async function writeSlugRegistry(
+  registry: SlugRegistryFile,
+  registryPath: string = SLUG_REGISTRY_PATH
+): Promise<boolean> {
+  const existing = await readSlugRegistry(registryPath).catch(() => emptyRegistry());
+  if (JSON.stringify(existing.stores) === JSON.stringify(registry.stores)) return false;
+
+  const updated = { ...registry, updated: today() };
+  await fs.writeFile(registryPath, JSON.stringify(updated, null, 2) + '\n');
+  return true;
+}
+
+/**
+ * Settle every store's slug against the registry.
+ *
+ * Each store wants its base slug (name + city + province). It gets it unless
+ * another store wants the same slug or the registry has issued it to a
+ * different store ID, in which case it gets the base slug plus a short hash
+ * of its ID. A slug that changes moves into the store's history so the old
+ * URL stays resolvable and is never reissued to another store. Stores new to
+ * an existing registry are stamped with today's date as their first
+ * appearance; seeding an empty registry records no dates, since those stores
+ * were listed long before.
+ */
+export function assignStoreSlugs(
+  stores: Array<Pick<ProcessedBookstore, 'id' | 'name' | 'slug'>>,
+  registry: SlugRegistryFile
+): SlugAssignment {
+  // Every slug ever issued, current or previous, belongs to one store ID
+  const owners = new Map<string, string>();
+  Object.entries(registry.stores).forEach(([id, entry]) => {
+    [...entry.previous, entry.slug].forEach(slug => {
+      if (!owners.has(slug)) owners.set(slug, id);
+    });
+  });
+
+  const wanted = new Map<string, Array<Pick<ProcessedBookstore, 'id' | 'name' | 'slug'>>>();
+  stores.forEach(store => {
+    wanted.set(store.slug, [...(wanted.get(store.slug) || []), store]);
+  });
+
+  const slugs: SlugAssignment['slugs'] = new Map();
+  const nextRegistry: SlugRegistryFile = { ...registry, stores: { ...registry.stores } };
+  const clashes = new Map<string, SlugClash>();
+  const isSeeding = Object.keys(registry.stores).length === 0;
+
+  stores.forEach(store => {
+    const base = store.slug;
+    const owner = owners.get(base);
+    const contested = owner ? owner !== store.id : (wanted.get(base)?.length || 0) > 1;
+    const slug = contested ? `${base}-${hashString(store.id).slice(0, 6)}` : base;
+
+    const entry = registry.stores[store.id];
+    if (contested && entry?.slug !== slug) {
+      const clash = clashes.get(base) || { slug: base, stores: [] };
+      clash.stores.push({ id: store.id, name: store.name, slug });
+      clashes.set(base, clash);
+    }
+
+    const previous = entry
+      ? [...entry.previous, entry.slug].filter((value, index, all) => value !== slug && all.indexOf(value) === index)
+      : [];
+
+    const added = entry ? entry.added : isSeeding ? undefined : today();
+    slugs.set(store.id, { slug, previous, added });
+    nextRegistry.stores[store.id] = { name: store.name, slug, previous, added };
+  });
+
+  // Disambiguated slugs can still collide with each other or with an issued slug
+  const assigned = new Map<string, string>();
+  const conflicts: string[] = [];
+  slugs.forEach(({ slug }, id) => {
+    const holder = assigned.get(slug) || (owners.get(slug) !== id ? owners.get(slug) : undefined);
+    if (holder) conflicts.push(`"${slug}" is claimed by both ${holder} and ${id}`);
+    assigned.set(slug, id);
+  });
+  if (conflicts.length > 0) {
+    throw new Error(`Unresolvable store slug conflicts:\n  ${conflicts.join('\n  ')}`);
+  }
+
+  return { slugs, registry: nextRegistry, clashes: [...clashes.values()] };
+}
+
+/**
+ * Human-readable list of clashes for build logs and errors
+ */
+export function formatSlugClashes(clashes: SlugClash[]): string {
+  return clashes
+    .map(clash => [
+      `"${clash.slug}":`,
+      ...clash.stores.map(store => `    ${store.name} (${store.id}) -> ${store.slug}`)
+    ].join('\n'))
+    .join('\n  ');
+}
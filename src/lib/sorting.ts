@@ -0,0 +1,122 @@
+import type { ProcessedBookstore } from '../types/bookstore';
+
+export type StoreSortMode = 'relevance' | 'distance' | 'rating' | 'bayesian' | 'name' | 'recent';
+
+export interface StoreSortOption {
+  id: StoreSortMode;
+  label: string;
+  // Distance sorting needs somewhere to measure from
+  requiresOrigin?: boolean;
+  // Recently added needs stores with a known first-seen date
+  requiresAddedDates?: boolean;
+}
+
+export const STORE_SORT_OPTIONS: StoreSortOption[] = [
+  { id: 'relevance', label: 'Best Match' },
+  { id: 'distance', label: 'Nearest First', requiresOrigin: true },
+  { id: 'bayesian', label: 'Top Rated' },
+  { id: 'rating', label: 'Highest Rating' },
+  { id: 'name', label: 'Name (A–Z)' },
+  { id: 'recent', label: 'Recently Added', requiresAddedDates: true }
+];
+
+// Sorts the static paginated listing can be pre-rendered in
+export const STATIC_SORT_MODES: StoreSortMode[] = ['name', 'bayesian', 'rating', 'recent'];
+
+/**
+ * Average rating and the review count it is weighted as, used to pull
+ * ratings with few reviews towards the average
+ */
+export interface RatingPrior {
+  mean: number;
+  weight: number;
+}
+
+type SortableStore = Pick<ProcessedBookstore, 'name' | 'ratingInfo' | 'addedAt'> & { distanceKm?: number };
+
+// French-aware: accents sort with their base letter ("École" next to "Ecole"), numbers by value
+const nameCollator = new Intl.Collator('fr-CA', { sensitivity: 'base', numeric: true });
+
+export function compareStoreNames(a: string, b: string): number {
+  return nameCollator.compare(a, b);
+}
+
+const priors = new WeakMap<object, RatingPrior>();
+
+/**
+ * Prior for Bayesian ratings: the mean rating of rated stores, weighted as
+ * their median review count. Memoised per store array.
+ */
+export function getRatingPrior(stores: SortableStore[]): RatingPrior {
+  const cached = priors.get(stores);
+  if (cached) return cached;
+
+  const rated = stores.filter(store => store.ratingInfo?.rating && store.ratingInfo.numReviews > 0);
+  if (rated.length === 0) return { mean: 0, weight: 0 };
+
+  const counts = rated.map(store => store.ratingInfo!.numReviews).sort((a, b) => a - b);
+  const prior = {
+    mean: rated.reduce((sum, store) => sum + store.ratingInfo!.rating, 0) / rated.length,
+    weight: counts[Math.floor(counts.length / 2)]
+  };
+  priors.set(stores, prior);
+  return prior;
+}
+
+/**
+ * Rating shrunk towards the prior in proportion to how few reviews back it,
+ * so 4.9 from 8 reviews ranks below 4.7 from 400
+ */
+export function getBayesianRating(store: SortableStore, prior: RatingPrior): number {
+  const rating = store.ratingInfo?.rating || 0;
+  const reviews = store.ratingInfo?.numReviews || 0;
+  if (reviews + prior.weight === 0) return 0;
+  return (reviews * rating + prior.weight * prior.mean) / (reviews + prior.weight);
+}
+
+const hasReviews = (store: SortableStore) => (store.ratingInfo?.numReviews || 0) > 0;
+
+/**
+ * Return a sorted copy of the stores. Relevance keeps the incoming order (Fuse
+ * score or dataset order); ties in every other mode fall back to the name.
+ * Pass the prior of the full dataset when sorting a filtered subset.
+ */
+export function sortStores<T extends SortableStore>(
+  stores: T[],
+  mode: StoreSortMode,
+  prior: RatingPrior = getRatingPrior(stores)
+): T[] {
+  if (mode === 'relevance') return [...stores];
+
+  const byName = (a: T, b: T) => compareStoreNames(a.name, b.name);
+  const compare: Record<Exclude<StoreSortMode, 'relevance'>, (a: T, b: T) => number> = {
+    distance: (a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity),
+    rating: (a, b) =>
+      (b.ratingInfo?.rating || 0) - (a.ratingInfo?.rating || 0) ||
+      (b.ratingInfo?.numReviews || 0) - (a.ratingInfo?.numReviews || 0),
+    // Stores without reviews go last, rather than scoring the prior mean
+    bayesian: (a, b) =>
+      Number(hasReviews(b)) - Number(hasReviews(a)) ||
+      getBayesianRating(b, prior) - getBayesianRating(a, prior),
+    name: () => 0,
+    // Stores without a first-seen date go last
+    recent: (a, b) => (b.addedAt || '').localeCompare(a.addedAt || '')
+  };
+
+  return [...stores].sort((a, b) => compare[mode](a, b) || byName(a, b));
+}
+
+/**
+ * Stores as a static listing shows them in a sort mode. Recently added lists
+ * only stores with a known first-seen date.
+ */
+export function getStaticSortListing<T extends SortableStore>(stores: T[], mode: StoreSortMode): T[] {
+  return sortStores(mode === 'recent' ? stores.filter(store => store.addedAt) : stores, mode);
+}
+
+/**
+ * Static sort modes with something to list for these stores
+ */
+export function getStaticSortModes(stores: SortableStore[]): StoreSortMode[] {
+  return STATIC_SORT_MODES.filter(mode => getStaticSortListing(stores, mode).length > 0);
+}
@@ -0,0 +1,60 @@
+/**
+ * Curated English/French search vocabulary. Terms are written in their
+ * normalizeSearchText form (lower case, no accents or punctuation), since
+ * that is what queries are compared in.
+ */
+
+// Each group lists terms that mean the same thing to someone looking for a shop
+export const SEARCH_SYNONYMS: string[][] = [
+  [
+    'used books', 'used bookstore', 'used book store', 'second hand books', 'secondhand books',
+    'pre owned books', 'livres usages', 'livres d occasion', 'librairie d occasion',
+    'bouquinerie', 'bouquiniste', 'bouquine'
+  ],
+  ['bookstore', 'book store', 'bookshop', 'book shop', 'librairie', 'libraire'],
+  [
+    'rare books', 'rare bookstore', 'rare book store', 'first editions', 'collectible books',
+    'livres rares', 'premieres editions'
+  ],
+  [
+    'antiquarian', 'antiquarian books', 'antique books', 'old books', 'livres anciens',
+    'livre ancien', 'vieux livres'
+  ],
+  [
+    'comics', 'comic books', 'comic book store', 'comic shop', 'graphic novels', 'manga',
+    'bd', 'bande dessinee', 'bandes dessinees'
+  ],
+  ['book exchange', 'book swap', 'book trade', 'echange de livres', 'troc de livres'],
+  ['maps', 'cartes anciennes', 'old maps'],
+  ['records', 'vinyl', 'disques', 'vinyles']
+];
+
+// Frequent misspellings, corrected word by word before synonyms are looked up
+export const SEARCH_TYPOS: Record<string, string> = {
+  bookstor: 'bookstore',
+  bookstroe: 'bookstore',
+  boookstore: 'bookstore',
+  bokstore: 'bookstore',
+  bookshp: 'bookshop',
+  libary: 'library',
+  librarie: 'librairie',
+  librarire: 'librairie',
+  libraririe: 'librairie',
+  antiquerian: 'antiquarian',
+  antiquarien: 'antiquarian',
+  antiquairian: 'antiquarian',
+  antiqarian: 'antiquarian',
+  bouqiniste: 'bouquiniste',
+  bouquinist: 'bouquiniste',
+  bouquinnerie: 'bouquinerie',
+  bouqinerie: 'bouquinerie',
+  comix: 'comics',
+  commics: 'comics',
+  comcis: 'comics',
+  mangas: 'manga',
+  secondhand: 'second hand',
+  usagee: 'usages',
+  usage: 'usages',
+  occassion: 'occasion',
+  ocasion: 'occasion'
+};
@@ -0,0 +1,151 @@
+import type { DayOfWeek } from '../types/bookstore';
+import { getProvinceCode } from '../utils/geographic';
+
+export const DEFAULT_TIME_ZONE = 'America/Toronto';
+
+interface ZoneRule {
+  zone: string;
+  matches: (lat: number, lng: number) => boolean;
+}
+
+// Default zone for each province or territory
+const PROVINCE_TIME_ZONES: Record<string, string> = {
+  NL: 'America/St_Johns',
+  NS: 'America/Halifax',
+  PE: 'America/Halifax',
+  NB: 'America/Moncton',
+  QC: 'America/Toronto',
+  ON: 'America/Toronto',
+  MB: 'America/Winnipeg',
+  SK: 'America/Regina',
+  AB: 'America/Edmonton',
+  BC: 'America/Vancouver',
+  YT: 'America/Whitehorse',
+  NT: 'America/Yellowknife',
+  NU: 'America/Iqaluit'
+};
+
+// Regions that keep a different clock from the rest of their province, checked in order
+const REGIONAL_TIME_ZONES: Record<string, ZoneRule[]> = {
+  NL: [
+    // Labrador west of the Strait of Belle Isle keeps Atlantic time
+    { zone: 'America/Goose_Bay', matches: (lat, lng) => lat >= 52 && lng < -57.5 }
+  ],
+  QC: [
+    // Lower North Shore east of the Natashquan River, Atlantic standard time all year
+    { zone: 'America/Blanc-Sablon', matches: (lat, lng) => lat >= 50 && lng > -61.8 },
+    // Magdalen Islands
+    { zone: 'America/Halifax', matches: (lat, lng) => lat < 48 && lng > -62.5 }
+  ],
+  ON: [
+    // Atikokan stays on Eastern Standard Time all year
+    { zone: 'America/Atikokan', matches: (lat, lng) => Math.abs(lat - 48.76) < 0.3 && Math.abs(lng + 91.62) < 0.4 },
+    // Northwestern Ontario beyond 90°W (Kenora, Dryden) follows Manitoba
+    { zone: 'America/Winnipeg', matches: (_lat, lng) => lng < -90 }
+  ],
+  SK: [
+    // Lloydminster straddles the border and follows Alberta
+    { zone: 'America/Edmonton', matches: (lat, lng) => lng < -109.8 && lat > 53 && lat < 53.6 }
+  ],
+  BC: [
+    // Creston valley, Mountain Standard Time all year
+    { zone: 'America/Creston', matches: (lat, lng) => lat < 49.4 && lng > -116.9 && lng < -116.2 },
+    // East Kootenays (Cranbrook, Invermere, Golden) follow Alberta
+    { zone: 'America/Edmonton', matches: (lat, lng) => lat < 52.5 && lng > -117 },
+    // Fort Nelson and the Peace River region, Mountain Standard Time all year
+    { zone: 'America/Fort_Nelson', matches: (lat, lng) => lat >= 57.5 && lng > -124.5 },
+    { zone: 'America/Dawson_Creek', matches: (lat, lng) => lat >= 55 && lng > -122.5 }
+  ],
+  NU: [
+    { zone: 'America/Cambridge_Bay', matches: (_lat, lng) => lng < -102 },
+    { zone: 'America/Rankin_Inlet', matches: (_lat, lng) => lng < -85 }
+  ]
+};
+
+// Longitude bands used when the province is missing or unrecognised, west to east
+const LONGITUDE_FALLBACKS: Array<{ east: number; zone: string }> = [
+  { east: -120, zone: 'America/Vancouver' },
+  { east: -110, zone: 'America/Edmonton' },
+  { east: -102, zone: 'America/Regina' },
+  { east: -90, zone: 'America/Winnipeg' },
+  { east: -67, zone: 'America/Toronto' },
+  { east: -59.5, zone: 'America/Halifax' },
+  { east: Infinity, zone: 'America/St_Johns' }
+];
+
+const DAYS: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Resolve the IANA time zone for a store from its province and coordinates
+ */
+export function resolveTimeZone(province: string | undefined, lat?: number, lng?: number): string {
+  const code = getProvinceCode(province || '');
+  const hasCoordinates = typeof lat === 'number' && typeof lng === 'number' && !isNaN(lat) && !isNaN(lng);
+
+  if (hasCoordinates) {
+    const regional = REGIONAL_TIME_ZONES[code]?.find(rule => rule.matches(lat, lng));
+    if (regional) return regional.zone;
+  }
+
+  if (PROVINCE_TIME_ZONES[code]) return PROVINCE_TIME_ZONES[code];
+
+  if (hasCoordinates) {
+    return LONGITUDE_FALLBACKS.find(band => lng < band.east)!.zone;
+  }
+
+  return DEFAULT_TIME_ZONE;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'long',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export interface ZonedTime {
+  day: DayOfWeek;
+  // Local calendar date, YYYY-MM-DD
+  date: string;
+  minutes: number;
+}
+
+/**
+ * Get the wall-clock date, day and minutes since midnight for an instant in the given zone.
+ * Intl applies the zone's DST rules, so the result is correct on both sides of a transition.
+ */
+export function getZonedTime(at: Date, timeZone: string): ZonedTime {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = getFormatter(timeZone).formatToParts(at);
+  } catch {
+    // Unknown zone names throw in some runtimes; fall back to the visitor's clock
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return {
+      day: DAYS[at.getDay()],
+      date: `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`,
+      minutes: at.getHours() * 60 + at.getMinutes()
+    };
+  }
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    day: part('weekday').toLowerCase() as DayOfWeek,
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10)
+  };
+}
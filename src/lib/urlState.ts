@@ -0,0 +1,182 @@
+import type { StoreFilters } from '../components/stores/StoreSearch';
+import { DEFAULT_STORE_FILTERS } from '../components/stores/StoreSearch';
+import { WEEKDAYS } from './processors/hours';
+import { formatClockTime } from '../utils/storeHours';
+import { STORE_SORT_OPTIONS, type StoreSortMode } from './sorting';
+import { CATEGORY_LIST } from './categories';
+import { DISTANCE_OPTIONS, type SearchOrigin } from './search';
+import type { DayOfWeek, StoreCategory } from '../types/bookstore';
+
+/**
+ * Search state that can be shared as a link. Lives in the query string, e.g.
+ * ?q=antiquarian&province=Nova+Scotia&rating=4&weekends=1&store=john-w-doull-bookseller
+ */
+export interface SearchUrlState {
+  query: string;
+  filters: StoreFilters;
+  sortBy: StoreSortMode;
+  // Slug of the store whose details are open
+  store: string | null;
+}
+
+/**
+ * Map position, kept in the hash as #map=zoom/lat/lng
+ */
+export interface MapViewport {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+export const DEFAULT_SEARCH_URL_STATE: SearchUrlState = {
+  query: '',
+  filters: DEFAULT_STORE_FILTERS,
+  sortBy: 'relevance',
+  store: null
+};
+
+// Only the parameters this module writes, so unrelated ones survive a rewrite
+const SEARCH_PARAMS = [
+  'q', 'website', 'weekends', 'rating', 'province', 'type', 'near', 'place', 'within',
+  'open', 'late', 'day', 'at', 'sort', 'store'
+];
+
+const MAP_HASH_PATTERN = /^#?map=(\d+(?:\.\d+)?)\/(-?\d+(?:\.\d+)?)\/(-?\d+(?:\.\d+)?)$/;
+
+const parseTime = (value: string | null): number | null => {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes < 24 * 60 ? minutes : null;
+};
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const isDay = (value: string | null): value is DayOfWeek =>
+  WEEKDAYS.includes(value as DayOfWeek);
+
+const isCategory = (value: string | null): value is StoreCategory =>
+  CATEGORY_LIST.some(category => category.id === value);
+
+// Only the radii the distance picker offers
+const parseDistance = (value: string | null): number | null => {
+  const distance = parseNumber(value);
+  return distance !== null && DISTANCE_OPTIONS.includes(distance) ? distance : null;
+};
+
+/**
+ * Read search state from a query string. Unknown or malformed values fall
+ * back to their defaults rather than failing, since links get hand-edited.
+ */
+export function parseSearchParams(search: string): SearchUrlState {
+  const params = new URLSearchParams(search);
+  const filters: StoreFilters = { ...DEFAULT_STORE_FILTERS };
+
+  filters.hasWebsite = params.get('website') === '1';
+  filters.openWeekends = params.get('weekends') === '1';
+  filters.minRating = Math.max(0, Math.min(5, parseNumber(params.get('rating')) ?? 0));
+  filters.province = params.get('province') || '';
+  const category = params.get('type');
+  filters.category = isCategory(category) ? category : '';
+
+  const [lat, lng] = (params.get('near') || '').split(',').map(part => parseNumber(part));
+  if (lat !== null && lng !== null && lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+    const origin: SearchOrigin = { lat, lng, label: params.get('place') || 'Shared location', source: 'place' };
+    filters.origin = origin;
+    filters.maxDistance = parseDistance(params.get('within'));
+  }
+
+  filters.openNow = params.get('open') === 'now';
+  filters.openAfter = parseTime(params.get('late'));
+  const day = params.get('day');
+  if (isDay(day)) {
+    filters.openOnDay = day;
+    const minutes = parseTime(params.get('at'));
+    filters.openAt = minutes === null ? null : { day, minutes };
+  }
+
+  const sort = params.get('sort');
+  const sortBy = STORE_SORT_OPTIONS.find(option => option.id === sort)?.id || 'relevance';
+
+  return {
+    query: params.get('q') || '',
+    filters,
+    // Nearest-first means nothing without somewhere to measure from
+    sortBy: sortBy === 'distance' && !filters.origin ? 'relevance' : sortBy,
+    store: params.get('store') || null
+  };
+}
+
+/**
+ * Write search state into a query string, leaving out defaults and keeping
+ * any parameters that belong to something else
+ */
+export function formatSearchParams(state: SearchUrlState, existing = ''): string {
+  const params = new URLSearchParams(existing);
+  SEARCH_PARAMS.forEach(key => params.delete(key));
+  const { filters } = state;
+
+  if (state.query.trim()) params.set('q', state.query.trim());
+  if (filters.hasWebsite) params.set('website', '1');
+  if (filters.openWeekends) params.set('weekends', '1');
+  if (filters.minRating > 0) params.set('rating', String(filters.minRating));
+  if (filters.province) params.set('province', filters.province);
+  if (filters.category) params.set('type', filters.category);
+  if (filters.origin) {
+    params.set('near', `${filters.origin.lat.toFixed(4)},${filters.origin.lng.toFixed(4)}`);
+    // A device location has no name worth sharing; it opens as "Shared location"
+    if (filters.origin.source === 'place') params.set('place', filters.origin.label);
+    if (filters.maxDistance) params.set('within', String(filters.maxDistance));
+  }
+  if (filters.openNow) params.set('open', 'now');
+  if (filters.openAfter !== null) params.set('late', formatClockTime(filters.openAfter));
+  if (filters.openOnDay) params.set('day', filters.openOnDay);
+  if (filters.openAt) params.set('at', formatClockTime(filters.openAt.minutes));
+  if (state.sortBy !== 'relevance') params.set('sort', state.sortBy);
+  if (state.store) params.set('store', state.store);
+
+  // Commas and colons are legal in a query string; leaving them readable keeps
+  // shared links legible (near=44.65,-63.58&at=14:30)
+  const search = params.toString().replace(/%2C/gi, ',').replace(/%3A/gi, ':');
+  return search ? `?${search}` : '';
+}
+
+/**
+ * Read the map position from a location hash, or null when it has none
+ */
+export function parseMapHash(hash: string): MapViewport | null {
+  const match = hash.match(MAP_HASH_PATTERN);
+  if (!match) return null;
+  const [zoom, latitude, longitude] = match.slice(1).map(Number);
+  if (zoom > 22 || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude, zoom };
+}
+
+/**
+ * Hash for a map position, rounded to what the zoom level can show
+ */
+export function formatMapHash({ latitude, longitude, zoom }: MapViewport): string {
+  const precision = Math.max(2, Math.ceil(Math.log2(Math.max(zoom, 1))) + 1);
+  return `#map=${zoom.toFixed(2).replace(/\.?0+$/, '')}/${latitude.toFixed(precision)}/${longitude.toFixed(precision)}`;
+}
+
+/**
+ * Put state into the address bar. Discrete changes (a filter, opening a store)
+ * push a history entry so Back undoes them; continuous ones (typing, panning)
+ * replace the current entry so Back doesn't step through every keystroke.
+ */
+export function updateUrl({ search, hash }: { search?: string; hash?: string }, mode: 'push' | 'replace'): void {
+  if (typeof window === 'undefined') return;
+  const { location, history } = window;
+  const url = `${location.pathname}${search ?? location.search}${hash ?? location.hash}`;
+  if (url === `${location.pathname}${location.search}${location.hash}`) return;
+  if (mode === 'push') {
+    history.pushState(history.state, '', url);
+  } else {
+    history.replaceState(history.state, '', url);
+  }
+}
@@ -1,12 +1,8 @@
-import { parseBookstores } from '../../lib/csv/parser';
-import { processBookstore } from '../../lib/processors/bookstore';
+import { getStores } from '../../lib/dataset';
 import type { APIRoute } from 'astro';
-import path from 'path';
 
 export const GET: APIRoute = async ({ url }) => {
-  const csvPath = path.join(process.cwd(), 'src', 'data', 'bookstores.csv');
-  const { records } = await parseBookstores(csvPath);
-  let stores = records.map(processBookstore);
+  let stores = await getStores();
 
   // Filtering
   const search = url.searchParams.get('search')?.toLowerCase() || '';
@@ -0,0 +1,18 @@
+import type { APIRoute } from 'astro';
+import { getSearchIndexAsset } from '../../lib/dataset';
+
+/**
+ * Prebuilt search index, loaded by the search islands on first use
+ */
+export async function getStaticPaths() {
+  const { hash } = await getSearchIndexAsset();
+  return [{ params: { hash } }];
+}
+
+export const GET: APIRoute = async () => {
+  const { body } = await getSearchIndexAsset();
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' }
+  });
+};
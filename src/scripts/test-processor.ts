@@ -1,6 +1,7 @@
 import { parseBookstores } from '../lib/csv/parser';
 import { processBookstore } from '../lib/processors/bookstore';
 import type { ProcessedBookstore } from '../types/bookstore';
+import { getWeeklyHours } from '../utils/storeHours';
 import path from 'path';
 
 async function main() {
@@ -45,9 +46,8 @@ async function main() {
     }
     
     console.log('\nBusiness Hours:');
-    const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
-    days.forEach(day => {
-      console.log(`${day.charAt(0).toUpperCase() + day.slice(1)}: ${processed.hours[day] || 'Closed'}`);
+    getWeeklyHours(processed, new Date()).forEach(({ label, text }) => {
+      console.log(`${label}: ${text}`);
     });
     
   } catch (error) {
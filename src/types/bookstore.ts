@@ -1,17 +1,116 @@
 import { z } from 'zod';
 
+// Google review ratings are whole stars
+export type ReviewRating = 1 | 2 | 3 | 4 | 5;
+
+export const ReviewRatingSchema = z.coerce
+  .number()
+  .int()
+  .min(1)
+  .max(5)
+  .transform(value => value as ReviewRating);
+
+// Review timestamps arrive from the scraper as Unix epoch seconds
+export const ReviewTimestampSchema = z.coerce.number().int().positive();
+
+// Validates a single review assembled from the reviewN_* columns
+export const GoogleReviewSchema = z.object({
+  author: z.string().trim().min(1),
+  rating: ReviewRatingSchema,
+  timestamp: ReviewTimestampSchema,
+  text: z.string().trim().default(''),
+});
+
 export interface GoogleReview {
   author: string;
-  rating: number;
-  time: string;
+  rating: ReviewRating;
+  time: string; // ISO 8601 date the review was posted
+  timestamp: number; // Unix epoch seconds
   text: string;
 }
 
+// Normalized store categories (see src/lib/categories.ts for aliasing)
+export type StoreCategory = 'used' | 'rare' | 'antiquarian' | 'comics' | 'other';
+
+export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// A single opening interval in minutes since midnight. `close` exceeds 1440
+// when the store stays open past midnight into the next day.
+export interface TimeInterval {
+  open: number;
+  close: number;
+}
+
+export interface DayHours {
+  status: 'open' | 'closed' | 'open24' | 'unknown';
+  intervals: TimeInterval[];
+  raw?: string; // Original listing, kept for display when it could not be parsed
+}
+
+// Weekly opening hours computed once from the raw listing strings
+export type OpeningHours = Record<DayOfWeek, DayHours>;
+
+// Holiday closure or one-off special hours replacing the weekly hours for a date.
+// Only special hours are stored; holiday closures are worked out from the date.
+export interface HoursOverride {
+  hours: DayHours;
+  reason: string;
+  source: 'holiday' | 'special';
+}
+
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+// One special-hours entry: a single date or an inclusive from/to range
+export const SpecialHoursSchema = z.union([
+  z.object({ date: IsoDateSchema, hours: z.string().min(1), reason: z.string().min(1) }),
+  z.object({ from: IsoDateSchema, to: IsoDateSchema, hours: z.string().min(1), reason: z.string().min(1) })
+]);
+
+// src/data/hours-overrides.json; bump the version when the shape changes
+export const HoursOverridesFileSchema = z.object({
+  version: z.literal(1),
+  updated: IsoDateSchema,
+  defaults: z.object({
+    // Holiday ids every store is assumed closed on unless it opts back in
+    closedOnHolidays: z.array(z.string())
+  }),
+  // Keyed by Google place_id
+  stores: z.record(z.object({
+    name: z.string().optional(),
+    holidays: z.object({
+      open: z.array(z.string()).default([]),
+      closed: z.array(z.string()).default([])
+    }).optional(),
+    specialHours: z.array(SpecialHoursSchema).default([])
+  }))
+});
+
+export type SpecialHours = z.infer<typeof SpecialHoursSchema>;
+export type HoursOverridesFile = z.infer<typeof HoursOverridesFileSchema>;
+
+export const SlugRegistryFileSchema = z.object({
+  version: z.literal(1),
+  updated: IsoDateSchema,
+  // Keyed by store ID; entries are kept after a store leaves the dataset so its slugs stay reserved
+  stores: z.record(z.object({
+    name: z.string(),
+    slug: z.string(),
+    // Slugs the store was previously published under, oldest first
+    previous: z.array(z.string()).default([]),
+    // Date the store first appeared in the dataset; unknown for stores
+    // listed before the registry existed
+    added: IsoDateSchema.optional()
+  }))
+});
+
+export type SlugRegistryFile = z.infer<typeof SlugRegistryFileSchema>;
+
 // Define the Zod schema for bookstore data validation
 export const BookstoreSchema = z.object({
   // Basic Info
   name: z.string(),
   description: z.string().optional(),
+  category: z.string().optional(),
   address: z.string(),
   city: z.string(),
   province: z.string(),
@@ -73,9 +172,20 @@ export type BookstoreData = z.infer<typeof BookstoreSchema>;
 
 // Interface for processed bookstore data with additional computed fields
 export interface ProcessedBookstore {
+  // Stable across builds: the place_id, or a name/address hash when it is missing
+  id: string;
+  // URL slug for /stores/{slug}/, fixed by the slug registry once issued
+  slug: string;
+  previousSlugs: string[];
+  // YYYY-MM-DD the store first appeared in the dataset, from the slug registry.
+  // Unset for stores listed before the registry recorded dates.
+  addedAt?: string;
+
   // Basic Info
   name: string;
   description?: string;
+  category: StoreCategory;
+  rawCategory?: string;
   address: string;
   city: string;
   province: string;
@@ -100,7 +210,7 @@ export interface ProcessedBookstore {
     reviews: GoogleReview[];
   };
   
-  // Hours data
+  // Hours data (raw listing strings, parsed into openingHours)
   hours: {
     monday?: string;
     tuesday?: string;
@@ -110,6 +220,13 @@ export interface ProcessedBookstore {
     saturday?: string;
     sunday?: string;
   };
+  openingHours: OpeningHours;
+  // Special hours keyed by local date (YYYY-MM-DD), taking precedence over openingHours
+  hoursOverrides: Record<string, HoursOverride>;
+  // Ids of the statutory holidays (src/lib/holidays.ts) the store closes on
+  closedOnHolidays: string[];
+  // IANA zone the hours are expressed in, e.g. "America/Halifax"
+  timeZone: string;
   
   // Photo URL
   photos_url: string;
@@ -625,6 +625,57 @@ export class CSVDiffEngine extends EventEmitter {
     };
   }
 
+  /**
+   * Compare two sets of already-parsed rows, matching them by the key columns
+   * rather than by position. Suited to comparing dataset snapshots where rows
+   * are reordered freely. Filters apply as in applyFilters.
+   */
+  compareKeyedRows(oldRows: Record<string, any>[], newRows: Record<string, any>[]): RowChange[] {
+    if (this.options.keyColumns.length === 0) {
+      throw new Error('compareKeyedRows requires keyColumns');
+    }
+
+    const keyOf = (row: Record<string, any>) => this.options.keyColumns.map(col => row[col] ?? '').join('|');
+    const oldByKey = new Map(oldRows.map((row, index) => [keyOf(row), { row, index }]));
+    const newKeys = new Set(newRows.map(keyOf));
+    const changes: RowChange[] = [];
+
+    newRows.forEach((newRow, rowIndex) => {
+      const rowId = keyOf(newRow);
+      const match = oldByKey.get(rowId);
+
+      if (!match) {
+        changes.push({ rowIndex, rowId, changeType: 'added', cellChanges: [], newRow });
+        return;
+      }
+
+      const columns = new Set([...Object.keys(match.row), ...Object.keys(newRow)]);
+      const cellChanges: CellChange[] = [...columns]
+        .filter(column => String(match.row[column] ?? '') !== String(newRow[column] ?? ''))
+        .map(column => ({
+          column,
+          oldValue: match.row[column],
+          newValue: newRow[column],
+          changeType: 'modified' as const
+        }));
+
+      if (cellChanges.length > 0) {
+        changes.push({ rowIndex, rowId, changeType: 'modified', cellChanges, oldRow: match.row, newRow });
+      } else if (match.index !== rowIndex && this.options.enableMoveDetection) {
+        changes.push({ rowIndex, rowId, changeType: 'moved', cellChanges: [], oldRow: match.row, newRow });
+      }
+    });
+
+    oldRows.forEach((oldRow, rowIndex) => {
+      const rowId = keyOf(oldRow);
+      if (!newKeys.has(rowId)) {
+        changes.push({ rowIndex, rowId, changeType: 'removed', cellChanges: [], oldRow });
+      }
+    });
+
+    return this.filterRowChanges(changes);
+  }
+
   /**
    * Apply filters to diff result
    */
@@ -635,8 +686,36 @@ export class CSVDiffEngine extends EventEmitter {
       return result;
     }
 
-    // Filter row changes
-    let filteredRowChanges = result.rowChanges;
+    const filteredRowChanges = this.filterRowChanges(result.rowChanges);
+
+    // Filter schema changes
+    let filteredSchemaChanges = result.schemaChanges;
+
+    if (filters.includeColumns && filters.includeColumns.length > 0) {
+      filteredSchemaChanges = filteredSchemaChanges.filter(change =>
+        filters.includeColumns!.includes(change.columnName)
+      );
+    }
+
+    if (filters.excludeColumns && filters.excludeColumns.length > 0) {
+      filteredSchemaChanges = filteredSchemaChanges.filter(change =>
+        !filters.excludeColumns!.includes(change.columnName)
+      );
+    }
+
+    return {
+      ...result,
+      rowChanges: filteredRowChanges,
+      schemaChanges: filteredSchemaChanges
+    };
+  }
+
+  /**
+   * Apply the row-level filters (change types and columns)
+   */
+  private filterRowChanges(rowChanges: RowChange[]): RowChange[] {
+    const filters = this.options.filters;
+    let filteredRowChanges = rowChanges;
 
     if (filters.changeTypes && filters.changeTypes.length > 0) {
       filteredRowChanges = filteredRowChanges.filter(change => 
@@ -662,26 +741,7 @@ export class CSVDiffEngine extends EventEmitter {
       }));
     }
 
-    // Filter schema changes
-    let filteredSchemaChanges = result.schemaChanges;
-
-    if (filters.includeColumns && filters.includeColumns.length > 0) {
-      filteredSchemaChanges = filteredSchemaChanges.filter(change =>
-        filters.includeColumns!.includes(change.columnName)
-      );
-    }
-
-    if (filters.excludeColumns && filters.excludeColumns.length > 0) {
-      filteredSchemaChanges = filteredSchemaChanges.filter(change =>
-        !filters.excludeColumns!.includes(change.columnName)
-      );
-    }
-
-    return {
-      ...result,
-      rowChanges: filteredRowChanges,
-      schemaChanges: filteredSchemaChanges
-    };
+    return filteredRowChanges;
   }
 
   /**
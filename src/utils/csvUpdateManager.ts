@@ -16,6 +16,8 @@ import type { CSVChangeEvent } from './csvMonitor';
 import type { ChangeLogEntry } from './csvChangeLog';
 import { EventEmitter } from 'node:events';
 import path from 'node:path';
+import { buildDataset, writeDataset } from '../lib/dataset';
+import { writeSlugRegistry } from '../lib/slugs';
 import { createCSVDiffEngine, type CSVDiffOptions, type CSVDiffResult } from './csvDiffEngine.js';
 import { createDiffReportGenerator, type ReportGenerationOptions, generateQuickConsoleReport } from './csvDiffReportGenerator.js';
 import fs from 'node:fs/promises';
@@ -833,12 +835,13 @@ export function createBookstoreRebuildHooks(): DataRebuildHook[] {
   return [
     {
       name: 'regenerate-json',
-      description: 'Regenerate JSON data from updated CSV',
+      description: 'Regenerate the canonical dataset JSON from updated CSV',
       enabled: true,
       handler: async (event, entry) => {
-        // This would trigger JSON regeneration
-        console.log(`Regenerating JSON data due to ${event.type} in ${path.basename(event.filename)}`);
-        // Implementation would go here to regenerate public/data/bookstores.json
+        console.log(`Regenerating canonical dataset due to ${event.type} in ${path.basename(event.filename)}`);
+        const { dataset, registry } = await buildDataset(event.filename);
+        await writeSlugRegistry(registry);
+        await writeDataset(dataset);
       }
     },
     {
@@ -1,4 +1,4 @@
-import type { BookstoreData } from '../types/bookstore';
+import type { ProcessedBookstore } from '../types/bookstore';
 
 // Province/state normalizations and mappings
 const PROVINCE_NORMALIZATIONS: Record<string, string> = {
@@ -46,6 +46,9 @@ const PROVINCE_ABBREVIATIONS: Record<string, string> = {
   'Yukon': 'YT'
 };
 
+// Full names of every province and territory
+export const CANADIAN_PROVINCES = Object.keys(PROVINCE_ABBREVIATIONS);
+
 export interface GeographicLocation {
   province: string;
   provinceCode: string;
@@ -115,7 +118,7 @@ export function createCitySlug(city: string): string {
 /**
  * Extract all unique provinces from bookstore data
  */
-export function extractProvinces(bookstores: BookstoreData[]): ProvinceInfo[] {
+export function extractProvinces(bookstores: ProcessedBookstore[]): ProvinceInfo[] {
   const provinceMap = new Map<string, { cities: Map<string, number>, totalStores: number }>();
 
   bookstores.forEach(store => {
@@ -153,7 +156,7 @@ export function extractProvinces(bookstores: BookstoreData[]): ProvinceInfo[] {
 /**
  * Extract all unique cities from bookstore data
  */
-export function extractCities(bookstores: BookstoreData[]): CityInfo[] {
+export function extractCities(bookstores: ProcessedBookstore[]): CityInfo[] {
   const cityMap = new Map<string, { province: string, count: number }>();
 
   bookstores.forEach(store => {
@@ -186,7 +189,7 @@ export function extractCities(bookstores: BookstoreData[]): CityInfo[] {
 /**
  * Get stores for a specific province
  */
-export function getStoresByProvince(bookstores: BookstoreData[], province: string): BookstoreData[] {
+export function getStoresByProvince(bookstores: ProcessedBookstore[], province: string): ProcessedBookstore[] {
   const normalizedProvince = normalizeProvince(province);
   return bookstores.filter(store => 
     normalizeProvince(store.province) === normalizedProvince
@@ -196,7 +199,7 @@ export function getStoresByProvince(bookstores: BookstoreData[], province: strin
 /**
  * Get stores for a specific city in a province
  */
-export function getStoresByCity(bookstores: BookstoreData[], province: string, city: string): BookstoreData[] {
+export function getStoresByCity(bookstores: ProcessedBookstore[], province: string, city: string): ProcessedBookstore[] {
   const normalizedProvince = normalizeProvince(province);
   return bookstores.filter(store => 
     normalizeProvince(store.province) === normalizedProvince &&
@@ -0,0 +1,39 @@
+import type { GoogleReview, ReviewRating } from '../types/bookstore';
+
+const STAR_LEVELS: ReviewRating[] = [5, 4, 3, 2, 1];
+
+export interface StarBreakdownRow {
+  stars: ReviewRating;
+  count: number;
+  percentage: number;
+}
+
+/**
+ * Format a review's posting date for display, e.g. "August 10, 2023"
+ */
+export function formatReviewDate(review: GoogleReview): string {
+  const date = new Date(review.time);
+  if (isNaN(date.getTime())) return '';
+
+  return date.toLocaleDateString('en-CA', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
+
+/**
+ * Count reviews per star level, highest stars first
+ */
+export function getStarBreakdown(reviews: GoogleReview[]): StarBreakdownRow[] {
+  const total = reviews.length;
+
+  return STAR_LEVELS.map(stars => {
+    const count = reviews.filter(review => review.rating === stars).length;
+    return {
+      stars,
+      count,
+      percentage: total > 0 ? Math.round((count / total) * 100) : 0
+    };
+  });
+}
@@ -18,7 +18,20 @@ export function slugify(text: string): string {
 }
 
 /**
- * Generate a unique slug for a bookstore
+ * Short, stable hash of a string (FNV-1a, hex)
+ */
+export function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Generate the base slug for a bookstore. Not unique on its own: the dataset
+ * build resolves collisions and renames through the slug registry.
  */
 export function generateStoreSlug(storeName: string, city?: string, province?: string): string {
   let slug = slugify(storeName);
@@ -34,15 +47,16 @@ export function generateStoreSlug(storeName: string, city?: string, province?: s
 }
 
 /**
- * Create a mapping of store slugs to store data for reverse lookup
+ * Create a mapping of current and previous store slugs to store data for reverse lookup
  */
-export function createSlugMapping(stores: any[]): Map<string, any> {
-  const slugMap = new Map();
+export function createSlugMapping<T extends { slug: string; previousSlugs: string[] }>(stores: T[]): Map<string, T> {
+  const slugMap = new Map<string, T>();
   
   stores.forEach(store => {
-    const slug = generateStoreSlug(store.name, store.city, store.province);
-    slugMap.set(slug, store);
+    store.previousSlugs.forEach(slug => slugMap.set(slug, store));
   });
+  // Current slugs win over anything left in a history list
+  stores.forEach(store => slugMap.set(store.slug, store));
   
   return slugMap;
-} 
\ No newline at end of file
+}
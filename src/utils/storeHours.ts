@@ -1,155 +1,478 @@
-import type { ProcessedBookstore } from '../types/bookstore';
+import type { DayHours, DayOfWeek, HoursOverride, OpeningHours, ProcessedBookstore, TimeInterval } from '../types/bookstore';
+import { MINUTES_PER_DAY, WEEKDAYS } from '../lib/processors/hours';
+import { getZonedTime } from '../lib/timezones';
+import { getHolidays, type Holiday } from '../lib/holidays';
 
-const DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+// Indexed like Date.getDay(), Sunday first
+const DAYS: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const DAY_LABELS: Record<DayOfWeek, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday'
+};
+
+// Minutes before closing that count as "closes soon"
+export const CLOSING_SOON_MINUTES = 60;
+
+export interface WeeklyHoursRow {
+  day: DayOfWeek;
+  label: string;
+  hours: DayHours;
+  text: string;
+  // Set when rows are dated: the next occurrence of the day and any override applied to it
+  date?: string;
+  override?: HoursOverride;
+}
+
+export type StoreStatusKind = 'open' | 'closes-soon' | 'opens-at' | 'closed' | 'unknown';
+
+/** A wall-clock time in the store's zone, daysAhead counted from the store's today */
+export interface StoreTime {
+  day: DayOfWeek;
+  minutes: number;
+  daysAhead: number;
+}
+
+export interface StoreStatus {
+  kind: StoreStatusKind;
+  label: string;
+  closesAt?: StoreTime;
+  nextOpen?: StoreTime;
+  // Holiday or special-hours reason when today's hours are overridden
+  reason?: string;
+}
+
+export type StoreHoursSource = Pick<
+  ProcessedBookstore,
+  'status' | 'openingHours' | 'timeZone' | 'hoursOverrides' | 'province' | 'closedOnHolidays'
+>;
+
+// What getOverrideOnDate reads; any of it may be missing
+type OverrideSource = Partial<Pick<StoreHoursSource, 'hoursOverrides' | 'province' | 'closedOnHolidays'>>;
+
+/** Time-window filters, all evaluated on the store's local clock */
+export interface HoursFilter {
+  openNow: boolean;
+  // Still open past this many minutes after midnight, on openOnDay or else on any day
+  openAfter: number | null;
+  openOnDay: DayOfWeek | '';
+  openAt: { day: DayOfWeek; minutes: number } | null;
+}
+
+// "Open late" choices, in minutes after midnight (5 PM to 9 PM)
+export const OPEN_LATE_OPTIONS = [17, 18, 19, 20, 21].map(hour => hour * 60);
 
 /**
- * Parse time string in format "HH:MM" or "HH:MM AM/PM" to minutes since midnight
+ * Weekly hours and upcoming overrides in the compact form the static store
+ * filter script (StoreFiltersScript.astro) reads from data attributes.
+ * Days are Sunday first, intervals are [open, close] minute pairs.
  */
-function parseTimeToMinutes(timeStr: string): number {
-  // Add null check
-  if (!timeStr || typeof timeStr !== 'string') {
-    throw new Error('Invalid time string');
-  }
+export interface CompactStoreHours {
+  status: ProcessedBookstore['status'];
+  timeZone: string;
+  province: string;
+  closedOnHolidays: string[];
+  weekly: Array<Array<[number, number]>>;
+  overrides: Record<string, Array<[number, number]>>;
+}
 
-  // Clean the time string
-  const cleanTimeStr = timeStr.trim();
-  
-  // Handle special cases
-  if (cleanTimeStr.toLowerCase().includes('24 hours') || cleanTimeStr.toLowerCase() === 'open 24 hours') {
-    return 0; // Return 0 for start of day (24 hour stores are always open)
-  }
-  
-  if (cleanTimeStr.toLowerCase() === 'closed') {
-    throw new Error('Store is closed');
+// Badge colours shared by the React and static store cards
+export const STORE_STATUS_STYLES: Record<StoreStatusKind, string> = {
+  open: 'bg-green-100 text-green-800',
+  'closes-soon': 'bg-amber-100 text-amber-800',
+  'opens-at': 'bg-gray-100 text-gray-700',
+  closed: 'bg-red-100 text-red-700',
+  unknown: 'bg-gray-100 text-gray-500'
+};
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function previousDayOf(day: DayOfWeek): DayOfWeek {
+  return DAYS[(DAYS.indexOf(day) + 6) % 7];
+}
+
+function isOpenDuring(today: DayHours, yesterday: DayHours, minutes: number): boolean {
+  if (today.intervals.some(interval => minutes >= interval.open && minutes < interval.close)) {
+    return true;
   }
 
-  // Handle just numbers (like "12" for noon) - improved logic
-  if (/^\d{1,2}$/.test(cleanTimeStr)) {
-    const hours = parseInt(cleanTimeStr);
-    if (hours >= 1 && hours <= 12) {
-      // Assume PM for numbers 1-12 to be safe (most common case)
-      return hours === 12 ? 12 * 60 : (hours + 12) * 60;
-    } else if (hours >= 13 && hours <= 23) {
-      // 24-hour format
-      return hours * 60;
-    } else if (hours === 0) {
-      // Midnight
-      return 0;
-    }
-    // If hours is outside valid range, fall through to error
+  return yesterday.intervals.some(interval =>
+    interval.close > MINUTES_PER_DAY && minutes < interval.close - MINUTES_PER_DAY
+  );
+}
+
+/**
+ * Check whether the weekly hours cover a given day and minute, including
+ * overnight spans carried over from the previous day
+ */
+export function isOpenAt(openingHours: OpeningHours, day: DayOfWeek, minutes: number): boolean {
+  return isOpenDuring(openingHours[day], openingHours[previousDayOf(day)], minutes);
+}
+
+/**
+ * Check whether the store has any opening on the given day
+ */
+export function isOpenOnDay(openingHours: OpeningHours, day: DayOfWeek): boolean {
+  return openingHours[day].intervals.length > 0;
+}
+
+const holidaysByYear = new Map<string, Holiday[]>();
+
+function getProvinceHolidays(year: number, province: string): Holiday[] {
+  const key = `${year}:${province}`;
+  let holidays = holidaysByYear.get(key);
+  if (!holidays) {
+    holidays = getHolidays(year, province);
+    holidaysByYear.set(key, holidays);
   }
+  return holidays;
+}
 
-  // Handle time formats like "10a.m." or "5:30p.m."
-  let timeMatch = cleanTimeStr.match(/(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?/i);
-  if (timeMatch) {
-    const hours = parseInt(timeMatch[1]);
-    const minutes = parseInt(timeMatch[2] || '0');
-    const period = timeMatch[3].toLowerCase();
-    
-    if (isNaN(hours) || isNaN(minutes) || hours < 1 || hours > 12 || minutes >= 60) {
-      throw new Error('Invalid time values');
-    }
-    
-    let totalMinutes = hours * 60 + minutes;
-    
-    // Handle PM times
-    if (period === 'p' && hours !== 12) {
-      totalMinutes += 12 * 60;
-    }
-    // Handle 12 AM
-    if (period === 'a' && hours === 12) {
-      totalMinutes = minutes;
-    }
-    
-    return totalMinutes;
+/**
+ * Override in effect on a local date: the store's special hours, else a
+ * closure for a holiday it closes on. Holiday dates come from the rules for
+ * whatever year the date falls in, so they hold however old the build is.
+ */
+export function getOverrideOnDate(store: OverrideSource, date: string): HoursOverride | undefined {
+  const special = store.hoursOverrides?.[date];
+  if (special) return special;
+  if (!store.province || !store.closedOnHolidays?.length) return undefined;
+
+  const closedOn = store.closedOnHolidays;
+  const holiday = getProvinceHolidays(Number(date.slice(0, 4)), store.province)
+    .find(candidate => candidate.date === date && closedOn.includes(candidate.id));
+  return holiday && { hours: { status: 'closed', intervals: [] }, reason: holiday.name, source: 'holiday' };
+}
+
+/**
+ * Hours in effect on a local date: a holiday or special-hours override, else the weekly hours
+ */
+export function getHoursOnDate(store: Pick<StoreHoursSource, 'openingHours'> & OverrideSource, date: string, day: DayOfWeek): DayHours {
+  return getOverrideOnDate(store, date)?.hours || store.openingHours[day];
+}
+
+/**
+ * Check if the store is open at the given moment (defaults to now),
+ * evaluated on the store's local clock rather than the visitor's
+ */
+export function isStoreOpen(store: StoreHoursSource, at: Date = new Date()): boolean {
+  // If store is not operational, it's closed
+  if (store.status !== 'OPERATIONAL') {
+    return false;
   }
 
-  // Handle 24-hour format like "14:30"
-  timeMatch = cleanTimeStr.match(/^(\d{1,2}):(\d{2})$/);
-  if (timeMatch) {
-    const hours = parseInt(timeMatch[1]);
-    const minutes = parseInt(timeMatch[2]);
-    
-    if (isNaN(hours) || isNaN(minutes) || hours >= 24 || minutes >= 60) {
-      throw new Error('Invalid time values');
-    }
-    
-    return hours * 60 + minutes;
+  const { day, date, minutes } = getZonedTime(at, store.timeZone);
+  const today = getHoursOnDate(store, date, day);
+  const yesterday = getHoursOnDate(store, addDays(date, -1), previousDayOf(day));
+
+  return isOpenDuring(today, yesterday, minutes);
+}
+
+/**
+ * Check whether the store is open at any point after the given minute on a
+ * day of the week, or on any day when none is given
+ */
+export function isOpenAfter(openingHours: OpeningHours, minutes: number, day?: DayOfWeek): boolean {
+  const days = day ? [day] : DAYS;
+  return days.some(candidate => openingHours[candidate].intervals.some(interval => interval.close > minutes));
+}
+
+/**
+ * Check whether any time-window filter is set
+ */
+export function isHoursFilterActive(filter: Partial<HoursFilter>): boolean {
+  return Boolean(filter.openNow || filter.openOnDay || filter.openAt || (filter.openAfter !== null && filter.openAfter !== undefined));
+}
+
+/**
+ * Check a store against every time-window filter that is set. Stores that
+ * are not operational never match an hours filter.
+ */
+export function matchesHoursFilter(store: StoreHoursSource, filter: Partial<HoursFilter>, at: Date = new Date()): boolean {
+  if (!isHoursFilterActive(filter)) return true;
+  if (store.status !== 'OPERATIONAL') return false;
+
+  const hours = store.openingHours;
+  if (filter.openNow && !isStoreOpen(store, at)) return false;
+  if (filter.openOnDay && !isOpenOnDay(hours, filter.openOnDay)) return false;
+  if (filter.openAfter !== null && filter.openAfter !== undefined && !isOpenAfter(hours, filter.openAfter, filter.openOnDay || undefined)) {
+    return false;
   }
+  if (filter.openAt && !isOpenAt(hours, filter.openAt.day, filter.openAt.minutes)) return false;
+  return true;
+}
+
+/**
+ * Compact hours for the static filter script, with special hours from `from`
+ * through the following `days` days so the payload stays small. Holidays
+ * travel as ids and are dated by the script itself.
+ */
+export function toCompactStoreHours(store: StoreHoursSource, from: string, days: number = 60): CompactStoreHours {
+  // Yesterday's hours can run past midnight into `from`
+  const since = addDays(from, -1);
+  const until = addDays(from, days);
+  const toPairs = (dayHours: DayHours) => dayHours.intervals.map(interval => [interval.open, interval.close] as [number, number]);
 
-  // If no format matches, throw an error
-  throw new Error(`Unrecognized time format: ${cleanTimeStr}`);
+  return {
+    status: store.status,
+    timeZone: store.timeZone,
+    province: store.province,
+    closedOnHolidays: store.closedOnHolidays,
+    weekly: DAYS.map(day => toPairs(store.openingHours[day])),
+    overrides: Object.fromEntries(
+      Object.entries(store.hoursOverrides || {})
+        .filter(([date]) => date >= since && date <= until)
+        .map(([date, override]) => [date, toPairs(override.hours)])
+    )
+  };
 }
 
 /**
- * Check if the store is currently open based on its hours
+ * Expand compact hours read back from a data attribute, so the static filter
+ * script can run matchesHoursFilter on them
  */
-export function isStoreOpen(store: ProcessedBookstore): boolean {
-  try {
-    // If store is not operational, it's closed
-    if (store.status !== 'OPERATIONAL') {
-      return false;
-    }
+export function fromCompactStoreHours(hours: CompactStoreHours): StoreHoursSource {
+  const toDayHours = (pairs: Array<[number, number]>): DayHours => ({
+    status: pairs.length > 0 ? 'open' : 'closed',
+    intervals: pairs.map(([open, close]) => ({ open, close }))
+  });
 
-    // Get current day and time
-    const now = new Date();
-    const currentDay = DAYS[now.getDay()];
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-    // Get today's hours
-    const todayHours = store.hours[currentDay];
-    
-    // If no hours listed for today, assume closed
-    if (!todayHours || todayHours.toLowerCase() === 'closed') {
-      return false;
-    }
+  return {
+    status: hours.status,
+    timeZone: hours.timeZone,
+    province: hours.province,
+    closedOnHolidays: hours.closedOnHolidays,
+    openingHours: Object.fromEntries(DAYS.map((day, index) => [day, toDayHours(hours.weekly[index])])) as OpeningHours,
+    hoursOverrides: Object.fromEntries(
+      Object.entries(hours.overrides).map(([date, pairs]) => [date, { hours: toDayHours(pairs), reason: '', source: 'special' as const }])
+    )
+  };
+}
 
-    // Check for 24-hour operation
-    if (todayHours.toLowerCase().includes('open 24 hours') || todayHours.toLowerCase().includes('24 hours')) {
-      return true;
-    }
+function toStoreTime(today: DayOfWeek, absoluteMinutes: number): StoreTime {
+  const daysAhead = Math.floor(absoluteMinutes / MINUTES_PER_DAY);
+  return {
+    day: DAYS[(DAYS.indexOf(today) + daysAhead) % 7],
+    minutes: absoluteMinutes - daysAhead * MINUTES_PER_DAY,
+    daysAhead
+  };
+}
+
+function describeStoreTime(time: StoreTime): string {
+  const clock = formatMinutes(time.minutes);
+  if (time.daysAhead === 0) return `at ${clock}`;
+  if (time.daysAhead === 1) return `tomorrow at ${clock}`;
+  return `${DAY_LABELS[time.day]} at ${clock}`;
+}
 
-    // Parse hours range - handle different separators and strip day prefixes
-    let hoursOnly = todayHours;
-    
-    // Remove day prefixes like "Sunday: " or "Mon: "
-    const dayPrefixMatch = hoursOnly.match(/^[a-zA-Z]+day?:\s*(.+)$/i);
-    if (dayPrefixMatch) {
-      hoursOnly = dayPrefixMatch[1];
+/**
+ * Describe where the store is in its weekly schedule at the given moment:
+ * open, closing within `closingSoonMinutes`, closed until a known opening,
+ * closed with no known opening, or unknown when the hours don't say
+ */
+export function getStoreStatus(
+  store: StoreHoursSource,
+  at: Date = new Date(),
+  closingSoonMinutes: number = CLOSING_SOON_MINUTES
+): StoreStatus {
+  if (store.status === 'CLOSED_PERMANENTLY') return { kind: 'closed', label: 'Permanently closed' };
+  if (store.status === 'CLOSED_TEMPORARILY') return { kind: 'closed', label: 'Temporarily closed' };
+
+  const hours = store.openingHours;
+  if (WEEKDAYS.every(day => hours[day].status === 'unknown')) {
+    return { kind: 'unknown', label: 'Hours not listed' };
+  }
+
+  const { day: today, date, minutes: now } = getZonedTime(at, store.timeZone);
+  const todayIndex = DAYS.indexOf(today);
+  const hoursOn = (offset: number) => getHoursOnDate(store, addDays(date, offset), DAYS[(todayIndex + offset + 7) % 7]);
+  const reason = getOverrideOnDate(store, date)?.reason;
+
+  // Lay yesterday through a week from today on one timeline, measured from today's midnight
+  const timeline: TimeInterval[] = [];
+  for (let offset = -1; offset <= 7; offset++) {
+    hoursOn(offset).intervals.forEach(interval => {
+      timeline.push({
+        open: offset * MINUTES_PER_DAY + interval.open,
+        close: offset * MINUTES_PER_DAY + interval.close
+      });
+    });
+  }
+  timeline.sort((a, b) => a.open - b.open);
+
+  // Merge back-to-back intervals so "open 24 hours" days chain into one span
+  const spans = timeline.reduce<TimeInterval[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.open <= last.close) {
+      last.close = Math.max(last.close, interval.close);
+    } else {
+      merged.push({ ...interval });
     }
-    
-    // Handle different separators
-    const hoursParts = hoursOnly.split(/–|—|-/).map(t => t.trim());
-    
-    if (hoursParts.length !== 2) {
-      console.warn(`Invalid hours format for store ${store.name}: ${todayHours}`);
-      return false;
+    return merged;
+  }, []);
+
+  const current = spans.find(span => now >= span.open && now < span.close);
+  if (current) {
+    if (current.close - now >= 7 * MINUTES_PER_DAY) {
+      return { kind: 'open', label: 'Open 24 hours', reason };
     }
-    
-    const [openTime, closeTime] = hoursParts;
-    
-    const openMinutes = parseTimeToMinutes(openTime);
-    const closeMinutes = parseTimeToMinutes(closeTime);
-
-    // Handle cases where closing time is on the next day
-    if (closeMinutes < openMinutes) {
-      return currentMinutes >= openMinutes || currentMinutes <= closeMinutes;
+
+    const closesAt = toStoreTime(today, current.close);
+    return {
+      kind: current.close - now <= closingSoonMinutes ? 'closes-soon' : 'open',
+      label: `Closes ${describeStoreTime(closesAt)}`,
+      closesAt,
+      reason
+    };
+  }
+
+  // Without today's hours there's no telling whether the store is closed right now
+  if (hoursOn(0).status === 'unknown') {
+    return { kind: 'unknown', label: 'Hours not listed today' };
+  }
+
+  const next = spans.find(span => span.open > now);
+  if (next) {
+    const nextOpen = toStoreTime(today, next.open);
+
+    // An unlisted day before the next opening might hide an earlier one
+    let skipsUnknownDay = false;
+    for (let offset = 1; offset < nextOpen.daysAhead; offset++) {
+      if (hoursOn(offset).status === 'unknown') skipsUnknownDay = true;
     }
 
-    return currentMinutes >= openMinutes && currentMinutes <= closeMinutes;
-  } catch (error) {
-    console.error(`Error parsing hours for store ${store.name}:`, error);
-    // Don't log every error, just return false for stores with unparseable hours
-    return false;
+    if (!skipsUnknownDay) {
+      return { kind: 'opens-at', label: `Opens ${describeStoreTime(nextOpen)}`, nextOpen, reason };
+    }
   }
+
+  return { kind: 'closed', label: reason ? `Closed for ${reason}` : 'Closed', reason };
+}
+
+/**
+ * Format minutes since midnight as a clock time, e.g. "10 AM" or "5:30 PM"
+ */
+export function formatMinutes(totalMinutes: number): string {
+  const minutesOfDay = totalMinutes % MINUTES_PER_DAY;
+  const hours24 = Math.floor(minutesOfDay / 60);
+  const minutes = minutesOfDay % 60;
+  const period = hours24 < 12 ? 'AM' : 'PM';
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+
+  return minutes === 0
+    ? `${hours12} ${period}`
+    : `${hours12}:${String(minutes).padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Minutes after midnight as "HH:MM", the format of time inputs and URLs
+ */
+export function formatClockTime(totalMinutes: number): string {
+  const minutesOfDay = totalMinutes % MINUTES_PER_DAY;
+  return `${String(Math.floor(minutesOfDay / 60)).padStart(2, '0')}:${String(minutesOfDay % 60).padStart(2, '0')}`;
 }
 
 /**
  * Get formatted hours for display
  */
-export function getFormattedHours(hours: string | undefined): string {
-  if (!hours || hours.toLowerCase() === 'closed') {
-    return 'Closed';
+export function formatDayHours(dayHours: DayHours): string {
+  switch (dayHours.status) {
+    case 'closed':
+      return 'Closed';
+    case 'open24':
+      return 'Open 24 hours';
+    case 'open':
+      return dayHours.intervals
+        .map(interval => `${formatMinutes(interval.open)} – ${formatMinutes(interval.close)}`)
+        .join(', ');
+    default:
+      return dayHours.raw || 'Hours not listed';
   }
-  return hours;
-} 
\ No newline at end of file
+}
+
+/**
+ * Monday-first rows for hours tables. Given a moment, each row is dated with the
+ * next occurrence of its day (from the store's today) and shows any override for that date.
+ */
+export function getWeeklyHours(
+  store: Pick<StoreHoursSource, 'openingHours'> & Partial<Pick<StoreHoursSource, 'timeZone'>> & OverrideSource,
+  at?: Date
+): WeeklyHoursRow[] {
+  const local = at && store.timeZone ? getZonedTime(at, store.timeZone) : undefined;
+
+  return WEEKDAYS.map(day => {
+    const row: WeeklyHoursRow = {
+      day,
+      label: DAY_LABELS[day],
+      hours: store.openingHours[day],
+      text: formatDayHours(store.openingHours[day])
+    };
+
+    if (local) {
+      row.date = addDays(local.date, (DAYS.indexOf(day) - DAYS.indexOf(local.day) + 7) % 7);
+      row.override = getOverrideOnDate(store, row.date);
+      if (row.override) {
+        row.hours = row.override.hours;
+        row.text = `${formatDayHours(row.override.hours)} (${row.override.reason})`;
+      }
+    }
+
+    return row;
+  });
+}
+
+// HH:MM for schema.org; a close at exactly midnight is written as 23:59
+function toClockTime(minutes: number): string {
+  const minutesOfDay = minutes >= MINUTES_PER_DAY && minutes % MINUTES_PER_DAY === 0
+    ? MINUTES_PER_DAY - 1
+    : minutes % MINUTES_PER_DAY;
+  const hours = Math.floor(minutesOfDay / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutesOfDay % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Convert the hours model to schema.org OpeningHoursSpecification entries
+ */
+export function toOpeningHoursSpecification(openingHours: OpeningHours) {
+  return WEEKDAYS.flatMap(day =>
+    openingHours[day].intervals.map(interval => ({
+      '@type': 'OpeningHoursSpecification',
+      dayOfWeek: `https://schema.org/${DAY_LABELS[day]}`,
+      opens: toClockTime(interval.open),
+      closes: toClockTime(interval.close)
+    }))
+  );
+}
+
+/**
+ * Convert the overrides of the `days` days from `from` to schema.org
+ * specialOpeningHoursSpecification entries; closed days use the 00:00-00:00 convention
+ */
+export function toSpecialOpeningHoursSpecification(store: OverrideSource, from: string, days: number = 365) {
+  return Array.from({ length: days }, (_, offset) => addDays(from, offset))
+    .flatMap(date => {
+      const override = getOverrideOnDate(store, date);
+      return override ? [[date, override] as const] : [];
+    })
+    .flatMap(([date, override]) => {
+      const intervals = override.hours.intervals.length > 0
+        ? override.hours.intervals
+        : [{ open: 0, close: 0 }];
+
+      return intervals.map(interval => ({
+        '@type': 'OpeningHoursSpecification',
+        validFrom: date,
+        validThrough: date,
+        opens: toClockTime(interval.open),
+        closes: toClockTime(interval.close)
+      }));
+    });
+}